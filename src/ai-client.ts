@@ -1,30 +1,77 @@
-import { type AiSettings, PROVIDERS, getApiKey, getModel } from "./types";
+import {
+	type AiSettings,
+	type AiMessage,
+	type AiImage,
+	type AiUsage,
+	type AiRequest,
+	type AiResult,
+	type AiErrorCode,
+	type AiProvider,
+	type AiStreamChunk,
+	type AiRoute,
+	type AiToolCall,
+	type JsonSchema,
+	type RetryPolicy,
+	PROVIDERS,
+	getApiKey,
+	getModel,
+	resolveTaskRoute,
+	supportsVision,
+} from "./types";
+import { parseRetryAfter, parseDuration, backoffDelay, sleep } from "./retry";
+import { TransportError, classifyError, isRetryable } from "./errors";
+import { parseJsonReply, validateJson } from "./json-schema";
+import {
+	DEFAULT_MAX_TOOL_ROUNDS,
+	type ToolExchange,
+	executeToolCalls,
+	newToolCallId,
+	parseToolArguments,
+} from "./tools";
+import { paramsFor, resolveGenerationParams } from "./params";
+import type { RequestScheduler } from "./scheduler";
+import { estimateTokens } from "./session";
+import { type FixtureStore, fixtureKey, matchMockRule } from "./mock";
 
-interface AiRequest {
-	system: string;
-	message: string;
-	maxTokens: number;
+/** Receives incremental chunks when a request is streamed */
+type ChunkHandler = (chunk: AiStreamChunk) => void;
+
+/** Plugin-owned state that provider calls use when available */
+export interface CallServices {
+	/** Queue every provider attempt behind these limits */
+	scheduler?: RequestScheduler;
+	/** Record / replay storage for the mock provider */
+	fixtures?: FixtureStore;
+}
+
+/** A request as seen by the provider functions, including earlier tool rounds */
+interface ProviderRequest extends AiRequest, CallServices {
+	toolExchanges?: ToolExchange[];
 }
 
-interface AiResponse {
-	ok: boolean;
-	text?: string;
-	error?: string;
+/** A single provider attempt, with the server's retry hint (stripped before returning) */
+interface ProviderResult extends AiResult {
+	retryAfterMs?: number;
 }
 
 /** Timeout for AI API calls (ms) */
 const FETCH_TIMEOUT_MS = 30_000;
 
+/** Used when the consumer omits maxTokens but the provider requires it */
+const DEFAULT_MAX_TOKENS = 1024;
+
 /**
  * Redact sensitive information from error messages.
  * Removes API keys, authorization headers, and URL query parameters.
  */
-function redactError(error: string, apiKey?: string): string {
+export function redactError(error: string, ...apiKeys: string[]): string {
 	let safe = error;
 
-	// Remove specific API key value if known
-	if (apiKey && apiKey.length > 4) {
-		safe = safe.replaceAll(apiKey, "[REDACTED]");
+	// Remove specific API key values if known
+	for (const apiKey of apiKeys) {
+		if (apiKey && apiKey.length > 4) {
+			safe = safe.replaceAll(apiKey, "[REDACTED]");
+		}
 	}
 
 	// Remove common query parameters that may contain keys
@@ -52,26 +99,51 @@ function redactError(error: string, apiKey?: string): string {
 	return safe;
 }
 
+/**
+ * Forward aborts from `source` to `controller`.
+ * Returns a function that detaches the listener.
+ */
+export function linkAbortSignal(source: AbortSignal | undefined, controller: AbortController): () => void {
+	if (!source) return () => {};
+	if (source.aborted) {
+		controller.abort();
+		return () => {};
+	}
+	const abort = () => controller.abort();
+	source.addEventListener("abort", abort, { once: true });
+	return () => source.removeEventListener("abort", abort);
+}
+
 /**
  * Fetch with timeout using AbortController.
+ * `timeoutMs` bounds the wait for the headers, then each silence
+ * between body chunks, so a stream that stalls midway also times out.
+ * The caller's signal stays linked after the headers arrive,
+ * so it can also cancel reading a streamed body.
  */
 async function fetchWithTimeout(
 	url: string,
 	options: RequestInit,
 	timeoutMs: number = FETCH_TIMEOUT_MS,
+	signal?: AbortSignal,
 ): Promise<Response> {
 	const controller = new AbortController();
 	const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+	linkAbortSignal(signal, controller);
 
 	try {
 		const response = await fetch(url, {
 			...options,
 			signal: controller.signal,
 		});
-		return response;
+		return withIdleTimeout(response, controller, timeoutMs, signal);
 	} catch (e: unknown) {
-		if (e instanceof DOMException && e.name === "AbortError") {
-			throw new Error("Request timed out");
+		if (e instanceof DOMException && e.name === "AbortError" && !signal?.aborted) {
+			throw new TransportError("timeout", "Request timed out");
+		}
+		// fetch() rejects with TypeError on network failure (host down, DNS, CORS)
+		if (e instanceof TypeError) {
+			throw new TransportError("network", e.message);
 		}
 		throw e;
 	} finally {
@@ -79,34 +151,435 @@ async function fetchWithTimeout(
 	}
 }
 
-export async function callAi(settings: AiSettings, req: AiRequest): Promise<AiResponse> {
-	const provider = settings.provider;
-	const apiKey = getApiKey(settings);
-	const model = getModel(settings);
+/**
+ * Re-wrap a response so its body aborts the request after `timeoutMs`
+ * without a chunk. The timer stops when the body ends or is cancelled.
+ */
+function withIdleTimeout(response: Response, controller: AbortController, timeoutMs: number, signal?: AbortSignal): Response {
+	if (!response.body) return response;
+	const reader = response.body.getReader();
+	let timer = setTimeout(() => controller.abort(), timeoutMs);
 
+	const body = new ReadableStream<Uint8Array>({
+		async pull(stream) {
+			let chunk: ReadableStreamReadResult<Uint8Array>;
+			try {
+				chunk = await reader.read();
+			} catch (e: unknown) {
+				clearTimeout(timer);
+				const stalled = e instanceof DOMException && e.name === "AbortError" && !signal?.aborted;
+				stream.error(stalled ? new TransportError("timeout", "Response stalled") : e);
+				return;
+			}
+			clearTimeout(timer);
+			if (chunk.done) {
+				stream.close();
+				return;
+			}
+			timer = setTimeout(() => controller.abort(), timeoutMs);
+			stream.enqueue(chunk.value);
+		},
+		cancel(reason) {
+			clearTimeout(timer);
+			return reader.cancel(reason);
+		},
+	});
+	return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/** Build a failed result */
+function fail(error: string, errorCode: AiErrorCode = "unknown", status?: number): AiResult {
+	return { ok: false, text: "", error, errorCode, status };
+}
+
+/**
+ * Build a failed result for a non-2xx response.
+ * The provider's JSON error body is parsed for a classified code,
+ * its message, and any server-requested retry delay.
+ */
+async function httpFail(res: Response, provider: AiProvider): Promise<ProviderResult> {
+	let body: unknown;
 	try {
-		switch (provider) {
-			case "gemini":
-				return await callGemini(apiKey, model, req);
-			case "openai":
-				return await callOpenAi(apiKey, model, req);
-			case "anthropic":
-				return await callAnthropic(apiKey, model, req);
-			case "ollama":
-				return await callOllama(settings.ollamaUrl, model, req);
-			default:
-				return { ok: false, error: `Unknown provider: ${provider}` };
+		body = await res.json();
+	} catch {
+		// Body is not JSON; classify by status alone
+	}
+
+	const { code, message, retryDelay } = classifyError(provider, res.status, body);
+	const error = message
+		? `Request failed, status ${res.status}: ${message}`
+		: `Request failed, status ${res.status}`;
+	// Gemini puts the delay in the body (error.details[].retryDelay), others in headers
+	const retryAfterMs = parseRetryAfter(res.headers, res.status, message) ?? (retryDelay ? parseDuration(retryDelay) : undefined);
+	return { ...fail(error, code, res.status), retryAfterMs };
+}
+
+/** Build a failed result for an error reported inside a 200 stream */
+function streamFail(provider: AiProvider, body: unknown): AiResult {
+	const { code, message } = classifyError(provider, 0, body);
+	return fail(message || `Stream error from ${provider}`, code);
+}
+
+/** Attach provider-reported token counts to a result, when there are any */
+function withUsage(result: AiResult, usage: AiUsage | undefined): AiResult {
+	return usage ? { ...result, usage } : result;
+}
+
+/** Sum the usage of several provider calls (tool rounds, repair requests) */
+function addUsage(a: AiUsage | undefined, b: AiUsage | undefined): AiUsage | undefined {
+	if (!a || !b) return a ?? b;
+	return {
+		inputTokens: a.inputTokens + b.inputTokens,
+		outputTokens: a.outputTokens + b.outputTokens,
+		cachedTokens: a.cachedTokens + b.cachedTokens,
+	};
+}
+
+/** Build the result for a request aborted by the caller */
+function cancelled(): AiResult {
+	return { ok: false, text: "", error: "Request cancelled", errorCode: "cancelled", cancelled: true };
+}
+
+/** Prior turns plus the new user message, in chat-completions role format */
+function chatMessages(req: AiRequest): AiMessage[] {
+	return [...(req.history ?? []), { role: "user", content: req.message }];
+}
+
+/** Images ready to send; vault paths and buffers are resolved by the plugin first */
+function requestImages(req: AiRequest): AiImage[] {
+	return (req.images ?? []).filter((i): i is AiImage => "data" in i && typeof i.data === "string");
+}
+
+/**
+ * chatMessages() mapped to a provider's message shape, with the final
+ * user turn built by `withImages` when the request carries images.
+ */
+function mapChatMessages<T>(
+	req: AiRequest,
+	plain: (m: AiMessage) => T,
+	withImages: (m: AiMessage, images: AiImage[]) => T,
+): T[] {
+	const images = requestImages(req);
+	const messages = chatMessages(req);
+	return messages.map((m, i) => (images.length > 0 && i === messages.length - 1 ? withImages(m, images) : plain(m)));
+}
+
+/**
+ * Read a streaming response body line by line.
+ * Shared by SSE (OpenAI / Anthropic / Gemini) and NDJSON (Ollama) parsing.
+ */
+async function readLines(res: Response, onLine: (line: string) => void): Promise<void> {
+	if (!res.body) throw new Error("Streaming not supported: empty response body");
+	const reader = res.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		buffer += decoder.decode(value, { stream: true });
+		let newline = buffer.indexOf("\n");
+		while (newline >= 0) {
+			const line = buffer.slice(0, newline).replace(/\r$/, "");
+			buffer = buffer.slice(newline + 1);
+			if (line) onLine(line);
+			newline = buffer.indexOf("\n");
+		}
+	}
+
+	buffer += decoder.decode();
+	if (buffer.trim()) onLine(buffer.replace(/\r$/, ""));
+}
+
+/**
+ * Read Server-Sent Events and pass each `data:` payload to the handler.
+ * The OpenAI `[DONE]` sentinel is skipped.
+ */
+async function readSse(res: Response, onData: (data: string) => void): Promise<void> {
+	await readLines(res, (line) => {
+		if (!line.startsWith("data:")) return;
+		const data = line.slice(5).trim();
+		if (data && data !== "[DONE]") onData(data);
+	});
+}
+
+/**
+ * Send a request to the configured provider, falling back through
+ * `settings.fallbacks` while failures are transient.
+ * When `onChunk` is given the response is streamed: text deltas are
+ * delivered as they arrive, followed by a final chunk with the result.
+ * With a scheduler, each provider attempt waits for a slot under its limits.
+ */
+export async function callAi(
+	settings: AiSettings,
+	request: AiRequest,
+	onChunk?: ChunkHandler,
+	services: CallServices = {},
+): Promise<AiResult> {
+	// Resolve the named preset once; each provider then picks what it supports
+	let req: ProviderRequest = { ...request, ...resolveGenerationParams(settings, request), ...services };
+	if (req.responseFormat) {
+		// OpenAI's json_object mode requires "JSON" to appear in the prompt
+		req = { ...req, system: `${req.system}\n\nRespond only with JSON.` };
+	}
+	let result = req.tools?.length
+		? await runToolLoop(settings, req, onChunk)
+		: await dispatchChain(settings, req, onChunk);
+	if (result.ok && req.responseFormat) {
+		result = await parseStructured(settings, req, result);
+	}
+	onChunk?.({ done: true, result });
+	return result;
+}
+
+/**
+ * Run model↔tool rounds until the model answers without calling a tool.
+ * Rounds are not streamed; the final answer is delivered as one chunk.
+ * Native JSON modes are left off here because Gemini and Anthropic
+ * cannot combine them with tools; the reply is still validated.
+ */
+async function runToolLoop(settings: AiSettings, req: ProviderRequest, onChunk?: ChunkHandler): Promise<AiResult> {
+	const tools = req.tools ?? [];
+	const maxRounds = req.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+	const exchanges: ToolExchange[] = [];
+	const executed: AiToolCall[] = [];
+	let usage: AiUsage | undefined;
+
+	for (let round = 0; ; round++) {
+		const result = await dispatchChain(settings, { ...req, responseFormat: undefined, toolExchanges: [...exchanges] });
+		usage = addUsage(usage, result.usage);
+		if (!result.ok) return withUsage({ ...result, toolCalls: executed }, usage);
+
+		const calls = result.toolCalls ?? [];
+		if (calls.length === 0) {
+			if (onChunk && result.text) onChunk({ done: false, text: result.text });
+			return withUsage({ ...result, toolCalls: executed }, usage);
+		}
+		if (round >= maxRounds) {
+			const limit = fail(`Tool call limit reached (${maxRounds} rounds)`, "invalid_output");
+			return withUsage({ ...result, ...limit, toolCalls: executed }, usage);
+		}
+
+		const results = await executeToolCalls(tools, calls);
+		if (req.signal?.aborted) return withUsage({ ...cancelled(), toolCalls: executed }, usage);
+		exchanges.push({ text: result.text, calls, results });
+		executed.push(...calls);
+	}
+}
+
+/**
+ * Parse and validate a JSON reply. When it does not conform, send the
+ * errors back once and ask the model for a corrected reply (not streamed).
+ */
+async function parseStructured(settings: AiSettings, req: ProviderRequest, first: AiResult): Promise<AiResult> {
+	const schema = req.responseFormat?.schema;
+	const check = (text: string): { data: unknown; errors: string[] } => {
+		const data = parseJsonReply(text);
+		if (data === undefined) return { data, errors: ["reply is not valid JSON"] };
+		return { data, errors: schema ? validateJson(data, schema) : [] };
+	};
+
+	const firstCheck = check(first.text);
+	if (firstCheck.errors.length === 0) return { ...first, data: firstCheck.data };
+
+	console.warn("[MWAB] structured output invalid, requesting repair:", firstCheck.errors);
+	const repaired = await dispatchChain(settings, {
+		...req,
+		tools: undefined,
+		// The model already saw the images; the repair is about format only
+		images: undefined,
+		history: [
+			...(req.history ?? []),
+			{ role: "user", content: req.message },
+			{ role: "assistant", content: first.text },
+		],
+		message: [
+			"Your previous reply did not match the required JSON format:",
+			...firstCheck.errors.map((e) => `- ${e}`),
+			"Reply again with only the corrected JSON, no other text.",
+		].join("\n"),
+	});
+	const usage = addUsage(first.usage, repaired.usage);
+	if (!repaired.ok) return withUsage(repaired, usage);
+
+	const secondCheck = check(repaired.text);
+	if (secondCheck.errors.length === 0) {
+		return withUsage({ ...repaired, data: secondCheck.data }, usage);
+	}
+	return {
+		...withUsage(repaired, usage),
+		ok: false,
+		error: `Invalid structured output: ${secondCheck.errors.slice(0, 5).join("; ")}`,
+		errorCode: "invalid_output",
+	};
+}
+
+/**
+ * Build the ordered route list: the primary (task-routed) provider, then each usable
+ * fallback (skipping duplicates and providers without a required key).
+ */
+function resolveRoutes(settings: AiSettings, task?: string): AiRoute[] {
+	const routes: AiRoute[] = [resolveTaskRoute(settings, task)];
+	for (const entry of settings.fallbacks ?? []) {
+		const info = PROVIDERS.find((p) => p.id === entry.provider);
+		if (!info) continue;
+		if (info.needsApiKey && !getApiKey(settings, entry.provider)) continue;
+		const route = { provider: entry.provider, model: entry.model || getModel(settings, entry.provider) };
+		if (routes.some((r) => r.provider === route.provider && r.model === route.model)) continue;
+		routes.push(route);
+	}
+	return routes;
+}
+
+/**
+ * Try each route in turn. Only transient failures move on to the next
+ * route, and never once streamed text has reached the consumer.
+ */
+async function dispatchChain(settings: AiSettings, req: ProviderRequest, onChunk?: ChunkHandler): Promise<AiResult> {
+	const chain = resolveRoutes(settings, req.task);
+	let routes = req.fallback === false ? chain.slice(0, 1) : chain;
+	if (req.images?.length) {
+		// Route image requests straight to a vision-capable model when the chain has one
+		const capable = routes.filter((r) => supportsVision(r.provider, r.model));
+		if (capable.length === 0) {
+			const { provider, model } = routes[0];
+			return { ...fail(`Model ${model} (${provider}) does not accept image input`, "vision_unsupported"), provider, model };
+		}
+		routes = capable;
+	}
+	let emitted = false;
+	const trackedOnChunk: ChunkHandler | undefined = onChunk && ((chunk) => {
+		emitted = true;
+		onChunk(chunk);
+	});
+
+	let result: AiResult = fail("No provider configured", "bad_request");
+	for (let i = 0; i < routes.length; i++) {
+		result = await dispatch(settings, routes[i], req, trackedOnChunk);
+		if (result.ok || !isRetryable(result.errorCode) || emitted) return result;
+		if (i + 1 < routes.length) {
+			console.warn(`[MWAB] ${routes[i].provider} failed (${result.errorCode}); falling back to ${routes[i + 1].provider}`);
+		}
+	}
+	return result;
+}
+
+/**
+ * Run the request on one route with the retry policy.
+ * A streamed attempt that already delivered text is never retried,
+ * since the consumer would see duplicated output.
+ */
+async function dispatch(settings: AiSettings, route: AiRoute, req: ProviderRequest, onChunk?: ChunkHandler): Promise<AiResult> {
+	const policy: RetryPolicy = { ...settings.retry, ...req.retry };
+	let emitted = false;
+	const trackedOnChunk: ChunkHandler | undefined = onChunk && ((chunk) => {
+		emitted = true;
+		onChunk(chunk);
+	});
+	const answeredBy = { provider: route.provider, model: route.model };
+
+	for (let attempt = 1; ; attempt++) {
+		const { retryAfterMs, ...result } = await attemptOnce(settings, route, req, trackedOnChunk);
+		const delay = retryAfterMs ?? backoffDelay(policy, attempt);
+		const giveUp = result.ok || !isRetryable(result.errorCode) || emitted
+			|| attempt >= policy.maxAttempts || delay > policy.maxDelayMs;
+		if (giveUp) {
+			return { ...result, ...answeredBy, attempts: attempt, retries: attempt - 1 };
+		}
+
+		console.warn(`[MWAB] ${result.error}; retrying in ${Math.round(delay)} ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+		await sleep(delay, req.signal);
+		if (req.signal?.aborted) {
+			return { ...cancelled(), ...answeredBy, attempts: attempt, retries: attempt - 1 };
 		}
+	}
+}
+
+async function attemptOnce(settings: AiSettings, route: AiRoute, req: ProviderRequest, onChunk?: ChunkHandler): Promise<ProviderResult> {
+	if (req.signal?.aborted) return cancelled();
+	const apiKey = getApiKey(settings, route.provider);
+
+	try {
+		const send = () => callProvider(settings, route, apiKey, req, onChunk);
+		const result = req.scheduler
+			? await req.scheduler.schedule(
+				route.provider, estimateRequestTokens(req), req.priority ?? "normal", send, req.signal, req.onQueuePosition)
+			: await send();
+		// Provider error bodies are echoed into messages, so redact them too
+		if (result.error) result.error = redactError(result.error, apiKey);
+		return result;
 	} catch (e: unknown) {
+		if (req.signal?.aborted) return cancelled();
 		const rawMsg = e instanceof Error ? e.message : String(e);
-		return { ok: false, error: redactError(rawMsg, apiKey) };
+		return fail(redactError(rawMsg, apiKey), e instanceof TransportError ? e.code : "unknown");
+	}
+}
+
+/** Prompt + output token estimate, counted toward a provider's TPM limit */
+function estimateRequestTokens(req: ProviderRequest): number {
+	const history = (req.history ?? []).reduce((sum, m) => sum + estimateTokens(m.content), 0);
+	const tools = req.toolExchanges?.length ? estimateTokens(JSON.stringify(req.toolExchanges)) : 0;
+	return estimateTokens(req.system) + estimateTokens(req.message) + history + tools
+		+ (req.maxTokens ?? DEFAULT_MAX_TOKENS);
+}
+
+async function callProvider(
+	settings: AiSettings,
+	route: AiRoute,
+	apiKey: string,
+	req: ProviderRequest,
+	onChunk?: ChunkHandler,
+): Promise<ProviderResult> {
+	const model = route.model;
+	switch (route.provider) {
+		case "gemini":
+			return callGemini(apiKey, model, req, onChunk);
+		case "openai":
+			return callOpenAi(apiKey, model, req, onChunk);
+		case "anthropic":
+			return callAnthropic(apiKey, model, req, onChunk);
+		case "ollama":
+			return callOllama(settings.ollamaUrl, model, req, onChunk);
+		case "openai-compatible": {
+			const config = settings.providers["openai-compatible"];
+			if (!config?.baseUrl) return fail("Base URL is not set for the OpenAI-compatible provider", "bad_request");
+			return callOpenAi(apiKey, model, req, onChunk, {
+				provider: "openai-compatible",
+				url: `${trimSlash(config.baseUrl)}/chat/completions`,
+				headers: config.extraHeaders,
+			});
+		}
+		case "mock":
+			return callMock(settings, req, onChunk);
+		default:
+			return fail(`Unknown provider: ${route.provider}`, "bad_request");
 	}
 }
 
 // ── Gemini ──
 
-async function callGemini(apiKey: string, model: string, req: AiRequest): Promise<AiResponse> {
-	const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+interface GeminiMeta {
+	finishReason?: string;
+	blockReason?: string;
+	safetyRatings?: { probability: string }[];
+}
+
+function geminiParams(req: ProviderRequest): object {
+	const p = paramsFor("gemini", req);
+	return {
+		temperature: p.temperature,
+		topP: p.topP,
+		topK: p.topK,
+		stopSequences: p.stop,
+		presencePenalty: p.presencePenalty,
+		frequencyPenalty: p.frequencyPenalty,
+		seed: p.seed,
+	};
+}
+
+async function callGemini(apiKey: string, model: string, req: ProviderRequest, onChunk?: ChunkHandler): Promise<ProviderResult> {
+	const method = onChunk ? "streamGenerateContent?alt=sse" : "generateContent";
+	const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`;
 	const res = await fetchWithTimeout(url, {
 		method: "POST",
 		headers: {
@@ -115,26 +588,146 @@ async function callGemini(apiKey: string, model: string, req: AiRequest): Promis
 		},
 		body: JSON.stringify({
 			systemInstruction: { parts: [{ text: req.system }] },
-			contents: [{ parts: [{ text: req.message }] }],
+			contents: [
+				...mapChatMessages(req, (m) => ({
+					role: m.role === "assistant" ? "model" : "user",
+					parts: [{ text: m.content }],
+				}), (m, images) => ({
+					role: "user",
+					parts: [
+						...images.map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } })),
+						{ text: m.content },
+					],
+				})),
+				...geminiToolContents(req.toolExchanges ?? []),
+			],
+			...(req.tools?.length ? {
+				tools: [{
+					functionDeclarations: req.tools.map((t) => ({
+						name: t.name,
+						description: t.description,
+						parameters: toGeminiSchema(t.parameters),
+					})),
+				}],
+			} : {}),
 			generationConfig: {
 				maxOutputTokens: req.maxTokens,
 				thinkingConfig: { thinkingBudget: 0 },
+				...geminiParams(req),
+				...(req.responseFormat ? {
+					responseMimeType: "application/json",
+					...(req.responseFormat.schema ? { responseSchema: toGeminiSchema(req.responseFormat.schema) } : {}),
+				} : {}),
 			},
 		}),
-	});
+	}, FETCH_TIMEOUT_MS, req.signal);
 
 	if (!res.ok) {
-		return { ok: false, error: `Request failed, status ${res.status}` };
+		return httpFail(res, "gemini");
 	}
 
-	const data = await res.json();
+	if (onChunk) {
+		// Each SSE event is a partial GenerateContentResponse
+		let text = "";
+		const meta: GeminiMeta = {};
+		let usage: AiUsage | undefined;
+		await readSse(res, (data) => {
+			const json = JSON.parse(data);
+			const candidate = json?.candidates?.[0];
+			const delta = ((candidate?.content?.parts ?? []) as { text?: string }[]).map((p) => p.text ?? "").join("");
+			if (delta) {
+				text += delta;
+				onChunk({ done: false, text: delta });
+			}
+			meta.finishReason = candidate?.finishReason ?? meta.finishReason;
+			meta.blockReason = json?.promptFeedback?.blockReason ?? meta.blockReason;
+			meta.safetyRatings = candidate?.safetyRatings ?? json?.promptFeedback?.safetyRatings ?? meta.safetyRatings;
+			// Counts are cumulative; the last event has the totals
+			usage = geminiUsage(json?.usageMetadata) ?? usage;
+		});
+		return withUsage(finishGemini(text, meta), usage);
+	}
 
-	// Debug: log Gemini response metadata for troubleshooting
+	const data = await res.json();
+	const usage = geminiUsage(data?.usageMetadata);
 	const candidate = data?.candidates?.[0];
-	const finishReason = candidate?.finishReason;
-	const blockReason = data?.promptFeedback?.blockReason;
-	const safetyRatings = candidate?.safetyRatings || data?.promptFeedback?.safetyRatings;
+	const parts: { text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }[] =
+		candidate?.content?.parts ?? [];
+	const toolCalls: AiToolCall[] = parts
+		.filter((p) => p.functionCall)
+		.map((p) => ({ id: newToolCallId(), name: p.functionCall?.name ?? "", arguments: p.functionCall?.args ?? {} }));
+	if (toolCalls.length > 0) {
+		return { ok: true, text: parts.map((p) => p.text ?? "").join(""), toolCalls, usage };
+	}
+
+	return withUsage(finishGemini(parts.map((p) => p.text ?? "").join(""), {
+		finishReason: candidate?.finishReason,
+		blockReason: data?.promptFeedback?.blockReason,
+		safetyRatings: candidate?.safetyRatings || data?.promptFeedback?.safetyRatings,
+	}), usage);
+}
+
+/** Gemini usageMetadata; thinking tokens are billed as output */
+function geminiUsage(raw: Record<string, number> | undefined): AiUsage | undefined {
+	if (!raw) return undefined;
+	return {
+		inputTokens: raw.promptTokenCount ?? 0,
+		outputTokens: (raw.candidatesTokenCount ?? 0) + (raw.thoughtsTokenCount ?? 0),
+		cachedTokens: raw.cachedContentTokenCount ?? 0,
+	};
+}
+
+/** Earlier tool rounds as Gemini functionCall / functionResponse turns */
+function geminiToolContents(exchanges: ToolExchange[]): Record<string, unknown>[] {
+	return exchanges.flatMap((ex) => [
+		{
+			role: "model",
+			parts: [
+				...(ex.text ? [{ text: ex.text }] : []),
+				...ex.calls.map((c) => ({ functionCall: { name: c.name, args: c.arguments } })),
+			],
+		},
+		{
+			role: "user",
+			parts: ex.results.map((r) => ({ functionResponse: { name: r.name, response: { content: r.content } } })),
+		},
+	]);
+}
 
+/**
+ * Convert a JSON Schema to Gemini's OpenAPI-style responseSchema:
+ * upper-case type names, `nullable` instead of a "null" type,
+ * and no keywords Gemini rejects (e.g. additionalProperties).
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+	const out: Record<string, unknown> = {};
+	const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+	const mainType = types.find((t) => t !== "null");
+	if (mainType) out.type = mainType.toUpperCase();
+	if (types.includes("null")) out.nullable = true;
+	if (schema.description) out.description = schema.description;
+	if (schema.enum) out.enum = schema.enum;
+	if (schema.required) out.required = schema.required;
+	if (schema.minItems !== undefined) out.minItems = schema.minItems;
+	if (schema.maxItems !== undefined) out.maxItems = schema.maxItems;
+	if (schema.minimum !== undefined) out.minimum = schema.minimum;
+	if (schema.maximum !== undefined) out.maximum = schema.maximum;
+	if (schema.items) out.items = toGeminiSchema(schema.items);
+	if (schema.properties) {
+		const props: Record<string, unknown> = {};
+		for (const [key, child] of Object.entries(schema.properties)) {
+			props[key] = toGeminiSchema(child);
+		}
+		out.properties = props;
+	}
+	return out;
+}
+
+/** Turn Gemini output plus response metadata into a result, logging diagnostics */
+function finishGemini(text: string | undefined, meta: GeminiMeta): AiResult {
+	const { finishReason, blockReason, safetyRatings } = meta;
+
+	// Debug: log Gemini response metadata for troubleshooting
 	if (finishReason && finishReason !== "STOP") {
 		console.warn("[MWAB Gemini] finishReason:", finishReason);
 	}
@@ -143,15 +736,13 @@ async function callGemini(apiKey: string, model: string, req: AiRequest): Promis
 	}
 	if (safetyRatings) {
 		const flagged = safetyRatings.filter(
-			(r: { probability: string }) => r.probability !== "NEGLIGIBLE" && r.probability !== "LOW",
+			(r) => r.probability !== "NEGLIGIBLE" && r.probability !== "LOW",
 		);
 		if (flagged.length > 0) {
 			console.warn("[MWAB Gemini] safety flags:", JSON.stringify(flagged));
 		}
 	}
 
-	const text = candidate?.content?.parts?.[0]?.text;
-
 	if (!text) {
 		// Build a diagnostic error message
 		let detail = "Empty response from Gemini";
@@ -160,7 +751,10 @@ async function callGemini(apiKey: string, model: string, req: AiRequest): Promis
 		else if (finishReason === "MAX_TOKENS") detail += " (output truncated: max tokens reached)";
 		else if (finishReason === "RECITATION") detail += " (blocked: recitation)";
 		else if (finishReason) detail += ` (finishReason: ${finishReason})`;
-		return { ok: false, error: detail };
+		const code: AiErrorCode = blockReason || finishReason === "SAFETY" || finishReason === "RECITATION"
+			? "safety_blocked"
+			: finishReason === "MAX_TOKENS" ? "truncated" : "unknown";
+		return fail(detail, code);
 	}
 
 	// Warn if response was truncated
@@ -171,37 +765,217 @@ async function callGemini(apiKey: string, model: string, req: AiRequest): Promis
 	return { ok: true, text };
 }
 
-// ── OpenAI ──
+// ── OpenAI / OpenAI-compatible ──
+
+/** Where an OpenAI-protocol request goes; defaults to api.openai.com */
+interface OpenAiEndpoint {
+	provider: AiProvider;
+	url: string;
+	headers?: Record<string, string>;
+}
+
+const OPENAI_ENDPOINT: OpenAiEndpoint = {
+	provider: "openai",
+	url: "https://api.openai.com/v1/chat/completions",
+};
+
+function trimSlash(url: string): string {
+	return url.replace(/\/+$/, "");
+}
+
+/** Auth + extra headers; local servers often need no key at all */
+function openAiHeaders(apiKey: string, extra?: Record<string, string>): Record<string, string> {
+	return {
+		...extra,
+		"Content-Type": "application/json",
+		...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+	};
+}
+
+/** top_k is not part of OpenAI's API but most compatible servers accept it */
+function openAiParams(provider: AiProvider, req: ProviderRequest): object {
+	const p = paramsFor(provider, req);
+	return {
+		temperature: p.temperature,
+		top_p: p.topP,
+		top_k: p.topK,
+		stop: p.stop,
+		presence_penalty: p.presencePenalty,
+		frequency_penalty: p.frequencyPenalty,
+		seed: p.seed,
+	};
+}
 
-async function callOpenAi(apiKey: string, model: string, req: AiRequest): Promise<AiResponse> {
-	const res = await fetchWithTimeout("https://api.openai.com/v1/chat/completions", {
+async function callOpenAi(
+	apiKey: string,
+	model: string,
+	req: ProviderRequest,
+	onChunk?: ChunkHandler,
+	endpoint: OpenAiEndpoint = OPENAI_ENDPOINT,
+): Promise<ProviderResult> {
+	const res = await fetchWithTimeout(endpoint.url, {
 		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			Authorization: `Bearer ${apiKey}`,
-		},
+		headers: openAiHeaders(apiKey, endpoint.headers),
 		body: JSON.stringify({
 			model,
 			messages: [
 				{ role: "system", content: req.system },
-				{ role: "user", content: req.message },
+				...mapChatMessages<object>(req, (m) => m, (m, images) => ({
+					role: "user",
+					content: [
+						{ type: "text", text: m.content },
+						...images.map((img) => ({ type: "image_url", image_url: { url: `data:${img.mimeType};base64,${img.data}` } })),
+					],
+				})),
+				...openAiToolMessages(req.toolExchanges ?? []),
 			],
 			max_tokens: req.maxTokens,
+			...openAiParams(endpoint.provider, req),
+			stream: Boolean(onChunk),
+			// Ask for a final usage-only chunk when streaming
+			...(onChunk ? { stream_options: { include_usage: true } } : {}),
+			...(req.responseFormat ? { response_format: openAiResponseFormat(req) } : {}),
+			...(req.tools?.length ? { tools: openAiTools(req) } : {}),
 		}),
-	});
+	}, FETCH_TIMEOUT_MS, req.signal);
 
 	if (!res.ok) {
-		return { ok: false, error: `Request failed, status ${res.status}` };
+		return httpFail(res, endpoint.provider);
+	}
+
+	if (onChunk) {
+		let text = "";
+		let finishReason: string | undefined;
+		let streamError: AiResult | undefined;
+		let usage: AiUsage | undefined;
+		await readSse(res, (data) => {
+			const json = JSON.parse(data);
+			// Errors after the 200 arrive as a `data: {"error": ...}` event
+			if (json?.error) {
+				streamError = streamFail(endpoint.provider, json);
+				return;
+			}
+			const choice = json?.choices?.[0];
+			const delta = choice?.delta?.content;
+			if (delta) {
+				text += delta;
+				onChunk({ done: false, text: delta });
+			}
+			finishReason = choice?.finish_reason ?? finishReason;
+			usage = openAiUsage(json?.usage) ?? usage;
+		});
+		if (streamError) return withUsage(streamError, usage);
+		return withUsage(text ? { ok: true, text } : emptyFail("OpenAI", finishReason), usage);
 	}
 
 	const data = await res.json();
-	const text = data?.choices?.[0]?.message?.content;
-	return text ? { ok: true, text } : { ok: false, error: "Empty response from OpenAI" };
+	const usage = openAiUsage(data?.usage);
+	const choice = data?.choices?.[0];
+	const text = choice?.message?.content;
+	const rawCalls: { id?: string; function?: { name?: string; arguments?: string } }[] = choice?.message?.tool_calls ?? [];
+	if (rawCalls.length > 0) {
+		const toolCalls: AiToolCall[] = rawCalls.map((c) => ({
+			id: c.id || newToolCallId(),
+			name: c.function?.name ?? "",
+			arguments: parseToolArguments(c.function?.arguments),
+		}));
+		return { ok: true, text: text ?? "", toolCalls, usage };
+	}
+	return withUsage(text ? { ok: true, text } : emptyFail("OpenAI", choice?.finish_reason), usage);
+}
+
+/** OpenAI `usage`; prompt_tokens already includes cached tokens */
+function openAiUsage(
+	raw: { prompt_tokens?: number; completion_tokens?: number; prompt_tokens_details?: { cached_tokens?: number } } | undefined,
+): AiUsage | undefined {
+	if (!raw) return undefined;
+	return {
+		inputTokens: raw.prompt_tokens ?? 0,
+		outputTokens: raw.completion_tokens ?? 0,
+		cachedTokens: raw.prompt_tokens_details?.cached_tokens ?? 0,
+	};
+}
+
+/** Tool declarations in the OpenAI / Ollama `tools` format */
+function openAiTools(req: AiRequest): Record<string, unknown>[] {
+	return (req.tools ?? []).map((t) => ({
+		type: "function",
+		function: { name: t.name, description: t.description, parameters: t.parameters },
+	}));
+}
+
+/** Earlier tool rounds as OpenAI assistant `tool_calls` + `tool` messages */
+function openAiToolMessages(exchanges: ToolExchange[]): Record<string, unknown>[] {
+	return exchanges.flatMap((ex) => [
+		{
+			role: "assistant",
+			content: ex.text || null,
+			tool_calls: ex.calls.map((c) => ({
+				id: c.id,
+				type: "function",
+				function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+			})),
+		},
+		...ex.results.map((r) => ({ role: "tool", tool_call_id: r.id, content: r.content })),
+	]);
+}
+
+/**
+ * List models from an OpenAI-compatible server's /models endpoint.
+ * Returns empty array on any error (server down, endpoint unsupported, etc).
+ */
+export async function listOpenAiCompatibleModels(
+	baseUrl: string,
+	apiKey: string,
+	extraHeaders?: Record<string, string>,
+): Promise<string[]> {
+	try {
+		const res = await fetchWithTimeout(
+			`${trimSlash(baseUrl)}/models`,
+			{ method: "GET", headers: openAiHeaders(apiKey, extraHeaders) },
+			5000,
+		);
+		if (!res.ok) return [];
+		const data = await res.json();
+		if (!Array.isArray(data?.data)) return [];
+		return data.data.map((m: { id?: string }) => m.id).filter((id: unknown): id is string => typeof id === "string");
+	} catch {
+		return [];
+	}
+}
+
+/** OpenAI `response_format`: json_schema when a schema is given, else json_object */
+function openAiResponseFormat(req: AiRequest): Record<string, unknown> {
+	const format = req.responseFormat;
+	if (!format?.schema) return { type: "json_object" };
+	return {
+		type: "json_schema",
+		json_schema: { name: format.name || "response", schema: format.schema, strict: false },
+	};
+}
+
+/**
+ * Build the result for an empty reply from a chat-completions style API,
+ * using the stop reason to tell truncation and filtering apart.
+ */
+function emptyFail(providerName: string, stopReason: string | undefined): AiResult {
+	if (stopReason === "length" || stopReason === "max_tokens") {
+		return fail(`Empty response from ${providerName} (output truncated: max tokens reached)`, "truncated");
+	}
+	if (stopReason === "content_filter" || stopReason === "refusal") {
+		return fail(`Empty response from ${providerName} (${stopReason})`, "safety_blocked");
+	}
+	return fail(`Empty response from ${providerName}`);
 }
 
 // ── Anthropic ──
 
-async function callAnthropic(apiKey: string, model: string, req: AiRequest): Promise<AiResponse> {
+function anthropicParams(req: ProviderRequest): object {
+	const p = paramsFor("anthropic", req);
+	return { temperature: p.temperature, top_p: p.topP, top_k: p.topK, stop_sequences: p.stop };
+}
+
+async function callAnthropic(apiKey: string, model: string, req: ProviderRequest, onChunk?: ChunkHandler): Promise<ProviderResult> {
 	const res = await fetchWithTimeout("https://api.anthropic.com/v1/messages", {
 		method: "POST",
 		headers: {
@@ -212,19 +986,172 @@ async function callAnthropic(apiKey: string, model: string, req: AiRequest): Pro
 		},
 		body: JSON.stringify({
 			model,
-			max_tokens: req.maxTokens,
+			max_tokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+			...anthropicParams(req),
 			system: req.system,
-			messages: [{ role: "user", content: req.message }],
+			messages: [
+				...mapChatMessages<object>(req, (m) => m, (m, images) => ({
+					role: "user",
+					content: [
+						...images.map((img) => ({
+							type: "image",
+							source: { type: "base64", media_type: img.mimeType, data: img.data },
+						})),
+						{ type: "text", text: m.content },
+					],
+				})),
+				...anthropicToolMessages(req.toolExchanges ?? []),
+			],
+			stream: Boolean(onChunk),
+			...(req.responseFormat ? anthropicForcedTool(req) : {}),
+			...(req.tools?.length ? {
+				tools: req.tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+			} : {}),
 		}),
-	});
+	}, FETCH_TIMEOUT_MS, req.signal);
 
 	if (!res.ok) {
-		return { ok: false, error: `Request failed, status ${res.status}` };
+		return httpFail(res, "anthropic");
+	}
+
+	if (onChunk) {
+		// Text deltas, the stop reason and mid-stream errors matter; other events are bookkeeping
+		let text = "";
+		let stopReason: string | undefined;
+		let streamError: AiResult | undefined;
+		let usage: AiUsage | undefined;
+		await readSse(res, (data) => {
+			const event = JSON.parse(data);
+			if (event?.type === "content_block_delta" && event.delta?.type === "text_delta") {
+				text += event.delta.text;
+				onChunk({ done: false, text: event.delta.text });
+			} else if (event?.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+				// Forced-tool structured output arrives as JSON fragments
+				text += event.delta.partial_json;
+				onChunk({ done: false, text: event.delta.partial_json });
+			} else if (event?.type === "message_start") {
+				usage = anthropicUsage(event.message?.usage);
+			} else if (event?.type === "message_delta") {
+				stopReason = event.delta?.stop_reason ?? stopReason;
+				// Output count in message_delta is cumulative
+				if (usage && event.usage?.output_tokens !== undefined) usage.outputTokens = event.usage.output_tokens;
+			} else if (event?.type === "error") {
+				streamError = streamFail("anthropic", event);
+			}
+		});
+		if (streamError) return withUsage(streamError, usage);
+		return withUsage(text ? { ok: true, text } : emptyFail("Anthropic", stopReason), usage);
 	}
 
 	const data = await res.json();
-	const text = data?.content?.[0]?.text;
-	return text ? { ok: true, text } : { ok: false, error: "Empty response from Anthropic" };
+	const usage = anthropicUsage(data?.usage);
+	const blocks: { type: string; id?: string; name?: string; text?: string; input?: Record<string, unknown> }[] =
+		data?.content ?? [];
+	const toolUses = blocks.filter((b) => b.type === "tool_use");
+	const plainText = blocks.filter((b) => b.type === "text").map((b) => b.text ?? "").join("");
+
+	if (req.tools?.length && toolUses.length > 0) {
+		const toolCalls: AiToolCall[] = toolUses.map((b) => ({
+			id: b.id || newToolCallId(),
+			name: b.name ?? "",
+			arguments: b.input ?? {},
+		}));
+		return { ok: true, text: plainText, toolCalls, usage };
+	}
+
+	const text = req.responseFormat && toolUses[0] ? JSON.stringify(toolUses[0].input) : plainText;
+	return withUsage(text ? { ok: true, text } : emptyFail("Anthropic", data?.stop_reason), usage);
+}
+
+/** Anthropic `usage`; input_tokens excludes cache reads and writes, so add them back */
+function anthropicUsage(
+	raw: { input_tokens?: number; output_tokens?: number; cache_read_input_tokens?: number; cache_creation_input_tokens?: number } | undefined,
+): AiUsage | undefined {
+	if (!raw) return undefined;
+	const cached = raw.cache_read_input_tokens ?? 0;
+	return {
+		inputTokens: (raw.input_tokens ?? 0) + cached + (raw.cache_creation_input_tokens ?? 0),
+		outputTokens: raw.output_tokens ?? 0,
+		cachedTokens: cached,
+	};
+}
+
+/** Earlier tool rounds as Anthropic `tool_use` / `tool_result` content blocks */
+function anthropicToolMessages(exchanges: ToolExchange[]): Record<string, unknown>[] {
+	return exchanges.flatMap((ex) => [
+		{
+			role: "assistant",
+			content: [
+				...(ex.text ? [{ type: "text", text: ex.text }] : []),
+				...ex.calls.map((c) => ({ type: "tool_use", id: c.id, name: c.name, input: c.arguments })),
+			],
+		},
+		{
+			role: "user",
+			content: ex.results.map((r) => ({
+				type: "tool_result",
+				tool_use_id: r.id,
+				content: r.content,
+				...(r.isError ? { is_error: true } : {}),
+			})),
+		},
+	]);
+}
+
+/**
+ * Anthropic has no JSON mode; structured output is obtained by forcing
+ * a single tool whose input schema is the requested schema.
+ */
+function anthropicForcedTool(req: AiRequest): Record<string, unknown> {
+	const name = req.responseFormat?.name || "structured_output";
+	return {
+		tools: [{
+			name,
+			description: "Return the response as structured data.",
+			input_schema: req.responseFormat?.schema ?? { type: "object" },
+		}],
+		tool_choice: { type: "tool", name },
+	};
+}
+
+// ── Mock ──
+
+async function callMock(settings: AiSettings, req: ProviderRequest, onChunk?: ChunkHandler): Promise<ProviderResult> {
+	const mock = settings.mock;
+	if (mock.mode === "script") {
+		const text = matchMockRule(mock.rules, req) ?? mock.defaultResponse;
+		if (!text) return fail("No mock rule matches this request", "bad_request");
+		onChunk?.({ done: false, text });
+		return { ok: true, text };
+	}
+
+	if (!req.fixtures) return fail("Mock record / replay needs the plugin's fixture store", "bad_request");
+	const key = await fixtureKey(req);
+
+	if (mock.mode === "replay") {
+		const entry = await req.fixtures.find(mock.fixtureFile, key);
+		if (!entry) return fail(`No recorded reply for this request in ${mock.fixtureFile}`, "bad_request");
+		if (entry.text) onChunk?.({ done: false, text: entry.text });
+		return { ok: true, text: entry.text, toolCalls: entry.toolCalls, usage: entry.usage };
+	}
+
+	// Record: answer from the real provider and save what it said
+	const provider = mock.recordProvider;
+	if (provider === "mock") return fail("Choose a real provider to record from", "bad_request");
+	const route: AiRoute = { provider, model: getModel(settings, provider) };
+	const result = await callProvider(settings, route, getApiKey(settings, provider), req, onChunk);
+	if (result.ok) {
+		await req.fixtures.record(mock.fixtureFile, key, {
+			recordedAt: new Date().toISOString(),
+			provider: route.provider,
+			model: route.model,
+			message: req.message,
+			text: result.text,
+			toolCalls: result.toolCalls,
+			usage: result.usage,
+		});
+	}
+	return result;
 }
 
 // ── Ollama ──
@@ -282,7 +1209,20 @@ export async function showOllamaModel(
 	}
 }
 
-async function callOllama(baseUrl: string, model: string, req: AiRequest): Promise<AiResponse> {
+function ollamaParams(req: ProviderRequest): object {
+	const p = paramsFor("ollama", req);
+	return {
+		temperature: p.temperature,
+		top_p: p.topP,
+		top_k: p.topK,
+		stop: p.stop,
+		presence_penalty: p.presencePenalty,
+		frequency_penalty: p.frequencyPenalty,
+		seed: p.seed,
+	};
+}
+
+async function callOllama(baseUrl: string, model: string, req: ProviderRequest, onChunk?: ChunkHandler): Promise<ProviderResult> {
 	const url = `${baseUrl}/api/chat`;
 	const res = await fetchWithTimeout(url, {
 		method: "POST",
@@ -291,18 +1231,78 @@ async function callOllama(baseUrl: string, model: string, req: AiRequest): Promi
 			model,
 			messages: [
 				{ role: "system", content: req.system },
-				{ role: "user", content: req.message },
+				...mapChatMessages<object>(req, (m) => m, (m, images) => ({
+					...m,
+					images: images.map((img) => img.data),
+				})),
+				...ollamaToolMessages(req.toolExchanges ?? []),
 			],
-			stream: false,
-			options: { num_predict: req.maxTokens },
+			stream: Boolean(onChunk),
+			options: { num_predict: req.maxTokens, ...ollamaParams(req) },
+			...(req.responseFormat ? { format: req.responseFormat.schema ?? "json" } : {}),
+			...(req.tools?.length ? { tools: openAiTools(req) } : {}),
 		}),
-	});
+	}, FETCH_TIMEOUT_MS, req.signal);
 
 	if (!res.ok) {
-		return { ok: false, error: `Request failed, status ${res.status}` };
+		return httpFail(res, "ollama");
+	}
+
+	if (onChunk) {
+		// NDJSON: one message fragment per line, `error` on failure
+		let text = "";
+		let streamError: AiResult | undefined;
+		let usage: AiUsage | undefined;
+		await readLines(res, (line) => {
+			const part = JSON.parse(line);
+			if (part?.error) {
+				streamError = streamFail("ollama", part);
+				return;
+			}
+			const delta = part?.message?.content;
+			if (delta) {
+				text += delta;
+				onChunk({ done: false, text: delta });
+			}
+			usage = ollamaUsage(part) ?? usage;
+		});
+		if (streamError) return streamError;
+		return withUsage(text ? { ok: true, text } : fail("Empty response from Ollama"), usage);
 	}
 
 	const data = await res.json();
+	const usage = ollamaUsage(data);
 	const text = data?.message?.content;
-	return text ? { ok: true, text } : { ok: false, error: "Empty response from Ollama" };
+	const rawCalls: { function?: { name?: string; arguments?: Record<string, unknown> } }[] = data?.message?.tool_calls ?? [];
+	if (rawCalls.length > 0) {
+		const toolCalls: AiToolCall[] = rawCalls.map((c) => ({
+			id: newToolCallId(),
+			name: c.function?.name ?? "",
+			arguments: parseToolArguments(c.function?.arguments),
+		}));
+		return { ok: true, text: text ?? "", toolCalls, usage };
+	}
+	return withUsage(text ? { ok: true, text } : emptyFail("Ollama", data?.done_reason), usage);
+}
+
+/** Ollama reports counts on the final (`done: true`) message only */
+function ollamaUsage(raw: { done?: boolean; prompt_eval_count?: number; eval_count?: number } | undefined): AiUsage | undefined {
+	if (!raw?.done) return undefined;
+	return {
+		inputTokens: raw.prompt_eval_count ?? 0,
+		outputTokens: raw.eval_count ?? 0,
+		cachedTokens: 0,
+	};
+}
+
+/** Earlier tool rounds as Ollama assistant `tool_calls` + `tool` messages */
+function ollamaToolMessages(exchanges: ToolExchange[]): Record<string, unknown>[] {
+	return exchanges.flatMap((ex) => [
+		{
+			role: "assistant",
+			content: ex.text,
+			tool_calls: ex.calls.map((c) => ({ function: { name: c.name, arguments: c.arguments } })),
+		},
+		...ex.results.map((r) => ({ role: "tool", content: r.content, tool_name: r.name })),
+	]);
 }
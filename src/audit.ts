@@ -0,0 +1,138 @@
+import { type DataAdapter, normalizePath } from "obsidian";
+import { type AiMessage, type AiRequest, type AiResult, type AiSettings, DEFAULT_AUDIT_SETTINGS, PROVIDERS, getApiKey } from "./types";
+import { redactError } from "./ai-client";
+import { dayKey } from "./usage";
+
+// ============================================================
+// Audit log
+// Opt-in record of what was sent and what came back, one file per
+// day in a vault folder. Every text field goes through the same
+// redaction as provider errors. Only files named like a log day are
+// ever deleted by retention.
+// ============================================================
+
+/** One request as written to the log */
+interface AuditEntry {
+	time: string;
+	consumer?: string;
+	task?: string;
+	provider?: string;
+	model?: string;
+	latencyMs: number;
+	inputTokens?: number;
+	outputTokens?: number;
+	ok: boolean;
+	cached?: boolean;
+	errorCode?: string;
+	error?: string;
+	system: string;
+	/** Earlier turns sent before `message`, e.g. by AiSession */
+	history: AiMessage[];
+	message: string;
+	response: string;
+}
+
+const LOG_FILE = /^(\d{4}-\d{2}-\d{2})\.(md|jsonl)$/;
+
+/** A code fence longer than any backtick run inside `text` */
+function fenced(text: string): string {
+	const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = "`".repeat(longest + 1);
+	return `${fence}text\n${text}\n${fence}`;
+}
+
+function toMarkdown(e: AuditEntry): string {
+	const route = [e.provider, e.model].filter((v) => v).join(" / ") || "-";
+	const outcome = e.ok ? (e.cached ? "ok (cached)" : "ok") : `${e.errorCode ?? "unknown"}: ${e.error ?? ""}`;
+	const lines = [
+		`## ${new Date(e.time).toTimeString().slice(0, 8)} ${route}`,
+		"",
+		`- Consumer: ${e.consumer || "-"}`,
+		`- Task: ${e.task || "-"}`,
+		`- Latency: ${e.latencyMs} ms`,
+		`- Tokens: ${e.inputTokens ?? "-"} in / ${e.outputTokens ?? "-"} out`,
+		`- Result: ${outcome}`,
+		"",
+		"### System",
+		fenced(e.system),
+		"",
+		...e.history.flatMap((m, i) => [`### History ${i + 1} (${m.role})`, fenced(m.content), ""]),
+		"### Message",
+		fenced(e.message),
+		"",
+		"### Response",
+		fenced(e.response),
+		"",
+		"",
+	];
+	return lines.join("\n");
+}
+
+export class AuditLog {
+	private adapter: DataAdapter;
+	/** Writes are chained so entries land in order */
+	private writing: Promise<void> = Promise.resolve();
+	/** Day retention last ran, so it runs once per day */
+	private prunedOn = "";
+
+	constructor(adapter: DataAdapter) {
+		this.adapter = adapter;
+	}
+
+	/** Append one request and its result to today's file, if the log is enabled */
+	record(settings: AiSettings, req: AiRequest, result: AiResult, latencyMs: number): void {
+		const config = settings.audit;
+		if (!config.enabled) return;
+
+		const keys = PROVIDERS.map((p) => getApiKey(settings, p.id));
+		const redact = (text: string) => redactError(text, ...keys);
+		const entry: AuditEntry = {
+			time: new Date().toISOString(),
+			consumer: req.consumer,
+			task: req.task,
+			provider: result.provider,
+			model: result.model,
+			latencyMs,
+			inputTokens: result.usage?.inputTokens,
+			outputTokens: result.usage?.outputTokens,
+			ok: result.ok,
+			cached: result.cached,
+			errorCode: result.errorCode,
+			error: result.error !== undefined ? redact(result.error) : undefined,
+			system: redact(req.system),
+			history: (req.history ?? []).map((m) => ({ role: m.role, content: redact(m.content) })),
+			message: redact(req.message),
+			response: redact(result.text),
+		};
+
+		const folder = normalizePath(config.folder || DEFAULT_AUDIT_SETTINGS.folder);
+		const today = dayKey();
+		const path = `${folder}/${today}.${config.format === "jsonl" ? "jsonl" : "md"}`;
+		const line = config.format === "jsonl" ? `${JSON.stringify(entry)}\n` : toMarkdown(entry);
+
+		this.writing = this.writing
+			.then(async () => {
+				if (!(await this.adapter.exists(folder))) await this.adapter.mkdir(folder);
+				await this.adapter.append(path, line);
+				if (this.prunedOn !== today) {
+					this.prunedOn = today;
+					await this.prune(folder, config.retentionDays);
+				}
+			})
+			.catch((e: unknown) => console.warn("[MWAB] failed to write audit log:", e));
+	}
+
+	/** Delete daily files older than the retention period */
+	private async prune(folder: string, retentionDays: number): Promise<void> {
+		if (!(retentionDays > 0)) return;
+		const cutoff = new Date();
+		cutoff.setDate(cutoff.getDate() - retentionDays);
+		const oldest = dayKey(cutoff);
+
+		const { files } = await this.adapter.list(folder);
+		for (const file of files) {
+			const match = LOG_FILE.exec(file.split("/").pop() ?? "");
+			if (match && match[1] < oldest) await this.adapter.remove(file);
+		}
+	}
+}
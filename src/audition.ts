@@ -0,0 +1,78 @@
+import { type AiRequest, type AiResult, type AiSettings, type MusePersona, getModel } from "./types";
+import { buildPersonaPrompt } from "./persona";
+import { t } from "./i18n";
+
+// ============================================================
+// Persona audition
+// Sends one story snippet to the current model under each guide's
+// prompt so the voices can be compared before choosing. Replies are
+// kept in memory, keyed by provider, model, snippet and the persona's
+// prompt, so they are reused until one of those changes. Failed
+// replies are not kept. Requests skip the response cache and never
+// fall back, so latency is real and the reply is from that model.
+// ============================================================
+
+export interface AuditionReply {
+	ok: boolean;
+	text: string;
+	error?: string;
+	errorCode?: AiResult["errorCode"];
+	/** Provider and model that answered */
+	provider?: string;
+	model?: string;
+	latencyMs: number;
+}
+
+export class PersonaAudition {
+	private call: (req: AiRequest) => Promise<AiResult>;
+	private replies = new Map<string, Promise<AuditionReply>>();
+
+	constructor(call: (req: AiRequest) => Promise<AiResult>) {
+		this.call = call;
+	}
+
+	private keyFor(settings: AiSettings, persona: MusePersona, snippet: string): string {
+		return JSON.stringify([settings.provider, getModel(settings), snippet, persona.name, buildPersonaPrompt(persona)]);
+	}
+
+	/** The kept reply for this persona under the current provider and model, if any */
+	cached(settings: AiSettings, persona: MusePersona, snippet: string): Promise<AuditionReply> | undefined {
+		return this.replies.get(this.keyFor(settings, persona, snippet));
+	}
+
+	/** Reply of `persona` to `snippet`; concurrent calls for the same key share one request */
+	audition(settings: AiSettings, persona: MusePersona, snippet: string): Promise<AuditionReply> {
+		const key = this.keyFor(settings, persona, snippet);
+		const kept = this.replies.get(key);
+		if (kept) return kept;
+
+		const reply = this.request(persona, snippet).then((r) => {
+			if (!r.ok) this.replies.delete(key);
+			return r;
+		});
+		this.replies.set(key, reply);
+		return reply;
+	}
+
+	private async request(persona: MusePersona, snippet: string): Promise<AuditionReply> {
+		const started = Date.now();
+		const result = await this.call({
+			system: `${buildPersonaPrompt(persona)}\n\n${t.auditionInstruction}`,
+			message: snippet,
+			maxTokens: 400,
+			consumer: "muse-weaver-ai-bridge",
+			retry: { maxAttempts: 1 },
+			fallback: false,
+			cache: "bypass",
+		});
+		return {
+			ok: result.ok,
+			text: result.text,
+			error: result.error,
+			errorCode: result.errorCode,
+			provider: result.provider,
+			model: result.model,
+			latencyMs: Date.now() - started,
+		};
+	}
+}
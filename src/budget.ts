@@ -0,0 +1,181 @@
+import {
+	type AiProvider,
+	type AiRoute,
+	type AiSettings,
+	type BudgetLimits,
+	type BudgetScope,
+	PROVIDERS,
+	getModel,
+} from "./types";
+import { dayKey, sumUsage, type UsageLedger, type UsageRecord } from "./usage";
+import { t } from "./i18n";
+
+// ============================================================
+// Budgets
+// Caps are checked against the usage ledger before each request.
+// Routes whose provider is over a cap are dropped from the chain;
+// when none is left the request is refused (or sent to Ollama if
+// the user opted in).
+// ============================================================
+
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetMetric = keyof BudgetLimits;
+
+/** One configured cap and how much of it is used */
+export interface BudgetMeter {
+	/** Undefined for the global (all providers) scope */
+	provider?: AiProvider;
+	period: BudgetPeriod;
+	metric: BudgetMetric;
+	limit: number;
+	used: number;
+}
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+const METRICS: BudgetMetric[] = ["requests", "tokens", "cost"];
+
+/** First day of the current month, YYYY-MM-DD */
+function monthStart(): string {
+	const now = new Date();
+	return dayKey(new Date(now.getFullYear(), now.getMonth(), 1));
+}
+
+function measure(records: UsageRecord[], metric: BudgetMetric): number {
+	const totals = sumUsage(records);
+	if (metric === "requests") return totals.requests;
+	if (metric === "tokens") return totals.inputTokens + totals.outputTokens;
+	return totals.cost ?? 0;
+}
+
+function periodRecords(ledger: UsageLedger, period: BudgetPeriod, provider?: AiProvider): UsageRecord[] {
+	const records = ledger.since(period === "daily" ? dayKey() : monthStart());
+	return provider ? records.filter((r) => r.provider === provider) : records;
+}
+
+/** Usage so far in the current day or month, for one provider or all */
+export function measureUsage(ledger: UsageLedger, period: BudgetPeriod, metric: BudgetMetric, provider?: AiProvider): number {
+	return measure(periodRecords(ledger, period, provider), metric);
+}
+
+/** Identifies a meter across recalculations */
+export function meterKey(m: BudgetMeter): string {
+	return `${m.provider ?? "*"}:${m.period}:${m.metric}`;
+}
+
+/** Every configured (non-zero) cap with its current usage */
+export function budgetMeters(settings: AiSettings, ledger: UsageLedger): BudgetMeter[] {
+	const scopes: [AiProvider | undefined, BudgetScope][] = [
+		[undefined, settings.budget.global],
+		...Object.entries(settings.budget.providers).map(([id, scope]): [AiProvider, BudgetScope] => [id as AiProvider, scope]),
+	];
+
+	const meters: BudgetMeter[] = [];
+	for (const [provider, scope] of scopes) {
+		for (const period of PERIODS) {
+			for (const metric of METRICS) {
+				const limit = scope[period][metric];
+				if (!(limit > 0)) continue;
+				meters.push({ provider, period, metric, limit, used: measureUsage(ledger, period, metric, provider) });
+			}
+		}
+	}
+	return meters;
+}
+
+/**
+ * The first exhausted cap that applies to `provider`.
+ * Global caps are skipped when `providerOnly` is set (the Ollama fallback).
+ */
+export function findBreach(meters: BudgetMeter[], provider: AiProvider, providerOnly = false): BudgetMeter | undefined {
+	return meters.find((m) =>
+		(m.provider === provider || (!providerOnly && m.provider === undefined)) && m.used >= m.limit);
+}
+
+/** English description for error messages, e.g. "Daily token budget for OpenAI reached (10,412 / 10,000)" */
+export function describeBreach(m: BudgetMeter): string {
+	const period = m.period === "daily" ? "Daily" : "Monthly";
+	const metric = m.metric === "requests" ? "request" : m.metric === "tokens" ? "token" : "cost";
+	const scope = m.provider ? ` for ${PROVIDERS.find((p) => p.id === m.provider)?.name ?? m.provider}` : "";
+	return `${period} ${metric} budget${scope} reached (${formatMeterValue(m.metric, m.used)} / ${formatMeterValue(m.metric, m.limit)})`;
+}
+
+export function formatMeterValue(metric: BudgetMetric, value: number): string {
+	return metric === "cost" ? `$${value.toFixed(2)}` : Math.round(value).toLocaleString();
+}
+
+export type BudgetDecision =
+	| { ok: true; settings: AiSettings }
+	| { ok: false; breach: BudgetMeter };
+
+/**
+ * Decide where a request may go under the current caps.
+ * Returns settings whose primary provider and fallback chain only
+ * contain routes within budget, or the cap that blocks the request.
+ * With `allowFallback` false (a request's `fallback: false`) the primary
+ * provider is never swapped: over its cap, the request is refused.
+ *
+ * Caps are checked against usage recorded so far, before dispatch.
+ * Requests already in flight are not counted, so concurrent requests
+ * can together overshoot a cap by up to their own usage.
+ */
+export function applyBudget(settings: AiSettings, meters: BudgetMeter[], allowFallback = true): BudgetDecision {
+	const primary: AiRoute = { provider: settings.provider, model: "" };
+	const routes = allowFallback ? [primary, ...settings.fallbacks] : [primary];
+	const allowed = routes.filter((r) => !findBreach(meters, r.provider));
+
+	if (allowed[0] === primary) {
+		return { ok: true, settings: { ...settings, fallbacks: allowed.slice(1) } };
+	}
+	if (allowed.length > 0) {
+		// Promote the first fallback within budget to primary
+		const [first, ...rest] = allowed;
+		const config = settings.providers[first.provider] ?? { apiKey: "", model: "" };
+		return {
+			ok: true,
+			settings: {
+				...settings,
+				provider: first.provider,
+				providers: {
+					...settings.providers,
+					[first.provider]: { ...config, model: first.model || getModel(settings, first.provider) },
+				},
+				fallbacks: rest,
+			},
+		};
+	}
+
+	const breach = findBreach(meters, primary.provider) as BudgetMeter;
+	if (allowFallback && settings.budget.fallbackToOllama && !findBreach(meters, "ollama", true)) {
+		return { ok: true, settings: { ...settings, provider: "ollama", fallbacks: [] } };
+	}
+	return { ok: false, breach };
+}
+
+/**
+ * Warning thresholds (percent) that a meter crossed between two readings.
+ * Meters are matched by key, so a settings change mid-request is harmless.
+ */
+export function crossedThresholds(
+	before: BudgetMeter[],
+	after: BudgetMeter[],
+	thresholds: number[],
+): { meter: BudgetMeter; threshold: number }[] {
+	const crossed: { meter: BudgetMeter; threshold: number }[] = [];
+	for (const meter of after) {
+		const prev = before.find((m) => meterKey(m) === meterKey(meter));
+		const prevPct = prev ? (prev.used / prev.limit) * 100 : 0;
+		const pct = (meter.used / meter.limit) * 100;
+		// Report only the highest threshold crossed by this request
+		const hit = thresholds.filter((th) => prevPct < th && pct >= th).sort((a, b) => b - a)[0];
+		if (hit !== undefined) crossed.push({ meter, threshold: hit });
+	}
+	return crossed;
+}
+
+/** Localized label such as "OpenAI / Daily / Tokens" */
+export function meterLabel(m: BudgetMeter): string {
+	const scope = m.provider ? PROVIDERS.find((p) => p.id === m.provider)?.name ?? m.provider : t.budgetAllProviders;
+	const period = m.period === "daily" ? t.budgetDaily : t.budgetMonthly;
+	const metric = m.metric === "requests" ? t.budgetRequests : m.metric === "tokens" ? t.budgetTokens : t.budgetCost;
+	return `${scope} / ${period} / ${metric}`;
+}
@@ -0,0 +1,158 @@
+import { type DataAdapter, debounce } from "obsidian";
+import { type AiRequest, type AiResult, type AiSettings, type CacheSettings, getModel } from "./types";
+import { resolveGenerationParams } from "./params";
+
+// ============================================================
+// Response cache
+// Successful replies are stored under a SHA-256 of everything that
+// shapes the output (route, prompts, history, images and generation
+// parameters). Requests with tools are never cached, since their
+// handlers have side effects and read live vault data.
+// ============================================================
+
+interface CacheEntry {
+	createdAt: number;
+	/** Approximate size in bytes (length of the stored JSON) */
+	size: number;
+	text: string;
+	data?: unknown;
+	provider?: AiResult["provider"];
+	model?: string;
+}
+
+interface CacheFile {
+	version: 1;
+	entries: Record<string, CacheEntry>;
+	hits: number;
+	misses: number;
+}
+
+export async function sha256(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Cache key for a request, or undefined when it must not be cached
+ * (cache disabled, `cache: "bypass"`, or tools attached).
+ */
+export async function cacheKeyFor(settings: AiSettings, req: AiRequest): Promise<string | undefined> {
+	if (!settings.cache.enabled || req.cache === "bypass" || req.tools?.length) return undefined;
+	return sha256(JSON.stringify({
+		provider: settings.provider,
+		model: getModel(settings),
+		system: req.system,
+		message: req.message,
+		history: req.history ?? [],
+		images: req.images ?? [],
+		maxTokens: req.maxTokens,
+		responseFormat: req.responseFormat,
+		params: resolveGenerationParams(settings, req),
+	}));
+}
+
+export class ResponseCache {
+	hits = 0;
+	misses = 0;
+
+	private entries: Record<string, CacheEntry> = {};
+	private adapter: DataAdapter;
+	private path: string;
+	/** Writes are chained so a slow save never overwrites a newer one */
+	private saving: Promise<void> = Promise.resolve();
+	/** Hit / miss counters alone are not worth rewriting the file on every lookup */
+	private saveCountersSoon = debounce(() => void this.save(), 10_000, true);
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (!(await this.adapter.exists(this.path))) return;
+			const file = JSON.parse(await this.adapter.read(this.path)) as CacheFile;
+			this.entries = file.entries ?? {};
+			this.hits = file.hits ?? 0;
+			this.misses = file.misses ?? 0;
+		} catch (e: unknown) {
+			console.warn("[MWAB] failed to load response cache:", e);
+			this.entries = {};
+		}
+	}
+
+	get size(): number {
+		return Object.values(this.entries).reduce((sum, e) => sum + e.size, 0);
+	}
+
+	get count(): number {
+		return Object.keys(this.entries).length;
+	}
+
+	/** Hits / lookups, or undefined before the first lookup */
+	get hitRate(): number | undefined {
+		const lookups = this.hits + this.misses;
+		return lookups > 0 ? this.hits / lookups : undefined;
+	}
+
+	/** Look up a fresh entry, counting the hit or miss */
+	get(key: string, config: CacheSettings): AiResult | undefined {
+		const entry = this.entries[key];
+		const fresh = entry && Date.now() - entry.createdAt < config.ttlHours * 3_600_000;
+		if (fresh) this.hits++;
+		else this.misses++;
+		this.saveCountersSoon();
+		if (!fresh) return undefined;
+		return { ok: true, text: entry.text, data: entry.data, provider: entry.provider, model: entry.model, cached: true };
+	}
+
+	/** Store a successful result, then evict expired and oldest entries over the size limit */
+	set(key: string, result: AiResult, config: CacheSettings): void {
+		const entry: CacheEntry = {
+			createdAt: Date.now(),
+			size: 0,
+			text: result.text,
+			data: result.data,
+			provider: result.provider,
+			model: result.model,
+		};
+		entry.size = JSON.stringify(entry).length;
+		this.entries[key] = entry;
+		this.evict(config);
+		void this.save();
+	}
+
+	async clear(): Promise<void> {
+		this.entries = {};
+		this.hits = 0;
+		this.misses = 0;
+		await this.save();
+	}
+
+	private evict(config: CacheSettings): void {
+		const expiry = Date.now() - config.ttlHours * 3_600_000;
+		const maxBytes = config.maxSizeMb * 1_000_000;
+		const live = Object.entries(this.entries)
+			.filter(([, e]) => e.createdAt >= expiry)
+			.sort(([, a], [, b]) => b.createdAt - a.createdAt);
+
+		const kept: Record<string, CacheEntry> = {};
+		let total = 0;
+		for (const [key, entry] of live) {
+			total += entry.size;
+			if (total > maxBytes) break;
+			kept[key] = entry;
+		}
+		this.entries = kept;
+	}
+
+	private save(): Promise<void> {
+		this.saving = this.saving
+			.then(() => {
+				const file: CacheFile = { version: 1, entries: this.entries, hits: this.hits, misses: this.misses };
+				return this.adapter.write(this.path, JSON.stringify(file));
+			})
+			.catch((e: unknown) => console.warn("[MWAB] failed to save response cache:", e));
+		return this.saving;
+	}
+}
@@ -0,0 +1,124 @@
+import type { AiErrorCode, AiProvider } from "./types";
+import { t } from "./i18n";
+
+// ============================================================
+// Error taxonomy
+// Maps HTTP statuses, provider JSON error bodies and transport
+// failures to a machine-readable AiErrorCode.
+// ============================================================
+
+/** Failure classes that may succeed when retried */
+const RETRYABLE_CODES: AiErrorCode[] = ["rate_limit", "server", "timeout", "network"];
+
+/** Thrown for timeouts and network failures (no HTTP response) */
+export class TransportError extends Error {
+	code: "timeout" | "network";
+
+	constructor(code: "timeout" | "network", message: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
+export function isRetryable(code: AiErrorCode | undefined): boolean {
+	return code !== undefined && RETRYABLE_CODES.includes(code);
+}
+
+/**
+ * Union of the JSON error shapes returned by the providers:
+ *   OpenAI    { error: { message, type, code } }
+ *   Anthropic { type: "error", error: { type, message } }
+ *   Gemini    { error: { code, message, status, details } }
+ *   Ollama    { error: "message" }
+ */
+interface ProviderErrorDetail {
+	message?: string;
+	type?: string;
+	code?: string | number;
+	status?: string;
+	details?: { reason?: string; retryDelay?: string; violations?: { quotaId?: string }[] }[];
+}
+
+interface ProviderErrorBody {
+	error?: string | ProviderErrorDetail;
+}
+
+export interface ClassifiedError {
+	code: AiErrorCode;
+	/** Provider-supplied explanation, if the body had one */
+	message?: string;
+	/** Gemini RetryInfo delay ("30s"), if present */
+	retryDelay?: string;
+}
+
+/**
+ * Classify a provider error from its HTTP status (0 for in-stream errors)
+ * and parsed JSON body. Specific body signals win over the bare status.
+ */
+export function classifyError(provider: AiProvider, status: number, body: unknown): ClassifiedError {
+	const b = (body && typeof body === "object" ? body : {}) as ProviderErrorBody;
+	const err: ProviderErrorDetail = typeof b.error === "string" ? { message: b.error } : b.error ?? {};
+	const details = err.details ?? [];
+	const message = err.message;
+	const retryDelay = details.find((d) => d.retryDelay)?.retryDelay;
+
+	const signals = [
+		err.type ?? "",
+		err.code ?? "",
+		err.status ?? "",
+		...details.map((d) => d.reason ?? ""),
+		message ?? "",
+	].join(" ").toLowerCase();
+
+	// In-stream errors have no HTTP status; Gemini's body carries one in `code`
+	const effective = status || (typeof err.code === "number" ? err.code : 0);
+	return { code: pickCode(provider, effective, signals, details), message, retryDelay };
+}
+
+/** Order matters: quota before rate_limit, auth and 404 before generic 4xx */
+function pickCode(
+	provider: AiProvider,
+	status: number,
+	signals: string,
+	details: NonNullable<ProviderErrorDetail["details"]>,
+): AiErrorCode {
+	if (/insufficient_quota|billing|credit balance|quota exceeded for .*per ?day/.test(signals)) return "quota";
+	if (status === 429 && provider === "gemini") {
+		const perDay = details.some((d) => (d.violations ?? []).some((v) => /PerDay/i.test(v.quotaId ?? "")));
+		if (perDay) return "quota";
+	}
+	if (status === 401 || status === 403 || /api_key_invalid|authentication_error|permission_error|invalid api key|incorrect api key/.test(signals)) return "auth";
+	if (status === 404 || /model_not_found|not_found_error|model .*not found/.test(signals)) return "model_not_found";
+	if (status === 429 || /rate_limit/.test(signals)) return "rate_limit";
+	if (status === 408) return "timeout";
+	if (status >= 500 || /overloaded_error|api_error|server_error/.test(signals)) return "server";
+	if (/safety|content_filter|content_policy/.test(signals)) return "safety_blocked";
+	if (status >= 400) return "bad_request";
+	return "unknown";
+}
+
+const ERROR_HINTS: Record<AiErrorCode, string> = {
+	auth: t.errorHintAuth,
+	rate_limit: t.errorHintRateLimit,
+	quota: t.errorHintQuota,
+	model_not_found: t.error404Hint,
+	safety_blocked: t.errorHintSafety,
+	truncated: t.errorHintTruncated,
+	timeout: t.errorHintTimeout,
+	network: t.errorHintNetwork,
+	bad_request: t.errorHintBadRequest,
+	server: t.errorHintServer,
+	invalid_output: t.errorHintInvalidOutput,
+	vision_unsupported: t.errorHintVision,
+	budget_exceeded: t.errorHintBudget,
+	cancelled: "",
+	unknown: "",
+};
+
+/**
+ * Localized, actionable remediation for an error code.
+ * Returns an empty string when there is nothing useful to suggest.
+ */
+export function getErrorHint(code: AiErrorCode | undefined): string {
+	return code ? ERROR_HINTS[code] : "";
+}
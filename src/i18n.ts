@@ -12,6 +12,7 @@ const ja = {
 	provider: "\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc",
 	apiKey: "API\u30ad\u30fc",
 	apiKeyDesc: (name: string) => `${name}\u306eAPI\u30ad\u30fc\u3092\u5165\u529b`,
+	apiKeyOptionalDesc: "\u30b5\u30fc\u30d0\u30fc\u304c\u8a8d\u8a3c\u3092\u5fc5\u8981\u3068\u3059\u308b\u5834\u5408\u306e\u307f\u5165\u529b\uff08\u30ed\u30fc\u30ab\u30eb\u30b5\u30fc\u30d0\u30fc\u306f\u901a\u5e38\u4e0d\u8981\uff09",
 	model: "\u30e2\u30c7\u30eb",
 	ollamaModel: "\u30e2\u30c7\u30eb\u540d",
 	ollamaModelDesc: "Ollama\u306b\u30a4\u30f3\u30b9\u30c8\u30fc\u30eb\u6e08\u307f\u306e\u30e2\u30c7\u30eb\u540d",
@@ -26,6 +27,12 @@ const ja = {
 	resetName: "\u8a2d\u5b9a\u3092\u30ea\u30bb\u30c3\u30c8",
 	resetDesc: "API\u30ad\u30fc\u3092\u542b\u3080\u3059\u3079\u3066\u306e\u8a2d\u5b9a\u3092\u521d\u671f\u5316\u3057\u307e\u3059\u3002",
 	resetBtn: "\u5168\u8a2d\u5b9a\u3092\u30af\u30ea\u30a2",
+	openAiCompatible: "OpenAI\u4e92\u63db\uff08LM Studio / vLLM / OpenRouter \u306a\u3069\uff09",
+	compatibleBaseUrl: "\u30d9\u30fc\u30b9URL",
+	compatibleBaseUrlDesc: "/v1 \u307e\u3067\u542b\u3081\u305fAPI\u306eURL\uff08\u4f8b: http://localhost:1234/v1, https://openrouter.ai/api/v1\uff09",
+	compatibleHeaders: "\u8ffd\u52a0\u30d8\u30c3\u30c0\u30fc",
+	compatibleHeadersDesc: "1\u884c\u306b1\u3064\u300c\u540d\u524d: \u5024\u300d\u306e\u5f62\u5f0f\u3067\u5165\u529b",
+	compatibleNoModels: "\u30b5\u30fc\u30d0\u30fc\u304b\u3089\u30e2\u30c7\u30eb\u4e00\u89a7\u3092\u53d6\u5f97\u3067\u304d\u307e\u305b\u3093\u3067\u3057\u305f\u3002\u30e2\u30c7\u30eb\u540d\u3092\u76f4\u63a5\u5165\u529b\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
 	ollamaLocal: "Ollama\uff08\u30ed\u30fc\u30ab\u30eb\uff09",
 	ollamaFetchingModels: "\u30e2\u30c7\u30eb\u4e00\u89a7\u3092\u53d6\u5f97\u4e2d\u2026",
 	ollamaNoModels: "Ollama\u304c\u8d77\u52d5\u3057\u3066\u3044\u306a\u3044\u304b\u3001\u30e2\u30c7\u30eb\u304c\u30a4\u30f3\u30b9\u30c8\u30fc\u30eb\u3055\u308c\u3066\u3044\u307e\u305b\u3093\u3002",
@@ -49,6 +56,208 @@ const ja = {
 	guideTone: "\u53e3\u8abf\u306e\u8aac\u660e",
 	guideToneDesc: "AI\u3078\u306e\u53e3\u8abf\u6307\u793a\u306b\u4f7f\u308f\u308c\u307e\u3059",
 	guideCustom: "\u2728 \u30ab\u30b9\u30bf\u30e0",
+	retryHeading: "\u30ea\u30c8\u30e9\u30a4",
+	retryAttempts: "\u6700\u5927\u8a66\u884c\u56de\u6570",
+	retryAttemptsDesc: "\u30ec\u30fc\u30c8\u5236\u9650\u30fb\u30b5\u30fc\u30d0\u30fc\u30a8\u30e9\u30fc\u30fb\u30bf\u30a4\u30e0\u30a2\u30a6\u30c8\u6642\u306b\u518d\u8a66\u884c\u3059\u308b\u56de\u6570\uff08\u521d\u56de\u3092\u542b\u3080\uff09",
+	retryBaseDelay: "\u521d\u56de\u5f85\u6a5f\u6642\u9593\uff08\u79d2\uff09",
+	retryBaseDelayDesc: "\u518d\u8a66\u884c\u3054\u3068\u306b2\u500d\u306b\u306a\u308a\u307e\u3059",
+	retryMaxDelay: "\u6700\u5927\u5f85\u6a5f\u6642\u9593\uff08\u79d2\uff09",
+	retryMaxDelayDesc: "\u30b5\u30fc\u30d0\u30fc\u304c\u3053\u308c\u3088\u308a\u9577\u3044\u5f85\u6a5f\u3092\u6c42\u3081\u305f\u5834\u5408\u306f\u518d\u8a66\u884c\u3057\u307e\u305b\u3093",
+	retryJitter: "\u5f85\u6a5f\u6642\u9593\u3092\u30e9\u30f3\u30c0\u30e0\u5316",
+	fallbackHeading: "\u30d5\u30a9\u30fc\u30eb\u30d0\u30c3\u30af",
+	fallbackDesc: "\u30e1\u30a4\u30f3\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u304c\u63a5\u7d9a\u30a8\u30e9\u30fc\u30fb\u30b5\u30fc\u30d0\u30fc\u30a8\u30e9\u30fc\u30fb\u30ec\u30fc\u30c8\u5236\u9650\u30fb\u30bf\u30a4\u30e0\u30a2\u30a6\u30c8\u3067\u5931\u6557\u3057\u305f\u3068\u304d\u3001\u4e0a\u304b\u3089\u9806\u306b\u8a66\u3057\u307e\u3059\u3002",
+	fallbackEntry: (n: number) => `\u30d5\u30a9\u30fc\u30eb\u30d0\u30c3\u30af ${n}`,
+	fallbackAdd: "+ \u30d5\u30a9\u30fc\u30eb\u30d0\u30c3\u30af\u3092\u8ffd\u52a0",
+	fallbackMoveUp: "\u4e0a\u3078",
+	fallbackMoveDown: "\u4e0b\u3078",
+	fallbackRemove: "\u524a\u9664",
+	fallbackMissingKey: (name: string) => `${name}\u306eAPI\u30ad\u30fc\u304c\u672a\u8a2d\u5b9a\u306e\u305f\u3081\u30b9\u30ad\u30c3\u30d7\u3055\u308c\u307e\u3059\u3002\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u3092\u5207\u308a\u66ff\u3048\u3066\u30ad\u30fc\u3092\u5165\u529b\u3057\u3066\u304f\u3060\u3055\u3044\u3002`,
+	errorHintAuth: "API\u30ad\u30fc\u304c\u6b63\u3057\u3044\u304b\u3001\u6709\u52b9\u671f\u9650\u304c\u5207\u308c\u3066\u3044\u306a\u3044\u304b\u3092\u3054\u78ba\u8a8d\u304f\u3060\u3055\u3044\u3002",
+	errorHintRateLimit: "\u30ea\u30af\u30a8\u30b9\u30c8\u304c\u96c6\u4e2d\u3057\u3066\u3044\u307e\u3059\u3002\u3057\u3070\u3089\u304f\u5f85\u3063\u3066\u304b\u3089\u518d\u5ea6\u304a\u8a66\u3057\u304f\u3060\u3055\u3044\u3002",
+	errorHintQuota: "\u5229\u7528\u67a0\u307e\u305f\u306f\u6b8b\u9ad8\u304c\u4e0d\u8db3\u3057\u3066\u3044\u307e\u3059\u3002\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u306e\u7ba1\u7406\u753b\u9762\u3067\u8acb\u6c42\u8a2d\u5b9a\u3092\u3054\u78ba\u8a8d\u304f\u3060\u3055\u3044\u3002",
+	errorHintSafety: "\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u306e\u5b89\u5168\u30d5\u30a3\u30eb\u30bf\u30fc\u306b\u3088\u308a\u30d6\u30ed\u30c3\u30af\u3055\u308c\u307e\u3057\u305f\u3002\u8868\u73fe\u3092\u5909\u3048\u3066\u304a\u8a66\u3057\u304f\u3060\u3055\u3044\u3002",
+	errorHintTruncated: "\u6700\u5927\u30c8\u30fc\u30af\u30f3\u6570\u306b\u9054\u3057\u3066\u5fdc\u7b54\u304c\u9014\u5207\u308c\u307e\u3057\u305f\u3002\u6700\u5927\u30c8\u30fc\u30af\u30f3\u6570\u3092\u5897\u3084\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
+	errorHintTimeout: "\u5fdc\u7b54\u304c\u6642\u9593\u5185\u306b\u8fd4\u308a\u307e\u305b\u3093\u3067\u3057\u305f\u3002\u30e2\u30c7\u30eb\u304c\u5927\u304d\u3059\u304e\u308b\u304b\u3001\u30b5\u30fc\u30d0\u30fc\u304c\u6df7\u96d1\u3057\u3066\u3044\u308b\u53ef\u80fd\u6027\u304c\u3042\u308a\u307e\u3059\u3002",
+	errorHintNetwork: "\u30b5\u30fc\u30d0\u30fc\u306b\u63a5\u7d9a\u3067\u304d\u307e\u305b\u3093\u3002\u30cd\u30c3\u30c8\u30ef\u30fc\u30af\u63a5\u7d9a\u3001\u307e\u305f\u306fOllama\u304c\u8d77\u52d5\u3057\u3066\u3044\u308b\u304b\u3092\u3054\u78ba\u8a8d\u304f\u3060\u3055\u3044\u3002",
+	errorHintBadRequest: "\u30ea\u30af\u30a8\u30b9\u30c8\u304c\u62d2\u5426\u3055\u308c\u307e\u3057\u305f\u3002\u30e2\u30c7\u30eb\u540d\u3084\u8a2d\u5b9a\u5024\u3092\u3054\u78ba\u8a8d\u304f\u3060\u3055\u3044\u3002",
+	errorHintInvalidOutput: "\u30e2\u30c7\u30eb\u304c\u6307\u5b9a\u3055\u308c\u305f\u5f62\u5f0f\u3067\u5fdc\u7b54\u3057\u307e\u305b\u3093\u3067\u3057\u305f\u3002\u3088\u308a\u9ad8\u6027\u80fd\u306a\u30e2\u30c7\u30eb\u3092\u304a\u8a66\u3057\u304f\u3060\u3055\u3044\u3002",
+	errorHintVision: "\u3053\u306e\u30e2\u30c7\u30eb\u306f\u753b\u50cf\u5165\u529b\u306b\u5bfe\u5fdc\u3057\u3066\u3044\u307e\u305b\u3093\u3002\u30d3\u30b8\u30e7\u30f3\u5bfe\u5fdc\u306e\u30e2\u30c7\u30eb\u3092\u9078\u629e\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
+	errorHintServer: "\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u5074\u3067\u969c\u5bb3\u304c\u767a\u751f\u3057\u3066\u3044\u307e\u3059\u3002\u6642\u9593\u3092\u304a\u3044\u3066\u518d\u5ea6\u304a\u8a66\u3057\u304f\u3060\u3055\u3044\u3002",
+	retryJitterDesc: "\u8907\u6570\u306e\u30ea\u30af\u30a8\u30b9\u30c8\u304c\u540c\u6642\u306b\u518d\u8a66\u884c\u3059\u308b\u306e\u3092\u9632\u304e\u307e\u3059",
+	usageHeading: "\u30c8\u30fc\u30af\u30f3\u4f7f\u7528\u91cf",
+	usageDesc: "\u76f4\u8fd114\u65e5\u9593\u306e\u5165\u529b\u30fb\u51fa\u529b\u30c8\u30fc\u30af\u30f3\u3002\u8cbb\u7528\u306f\u516c\u958b\u4fa1\u683c\u304b\u3089\u306e\u6982\u7b97\u3067\u3059\u3002",
+	usageEmpty: "\u307e\u3060\u8a18\u9332\u304c\u3042\u308a\u307e\u305b\u3093\u3002",
+	usageByConsumer: "\u30d7\u30e9\u30b0\u30a4\u30f3\u5225\uff08\u76f4\u8fd130\u65e5\uff09",
+	usageByModel: "\u30e2\u30c7\u30eb\u5225\uff08\u76f4\u8fd130\u65e5\uff09",
+	usageUnknownConsumer: "\u6307\u5b9a\u306a\u3057",
+	usageSummary: (requests: number, input: string, output: string, cost: string) => `${requests}\u56de \u00b7 \u5165\u529b ${input} / \u51fa\u529b ${output} \u30c8\u30fc\u30af\u30f3 \u00b7 ${cost}`,
+	usageDayTooltip: (date: string, input: string, output: string, cost: string) => `${date}: \u5165\u529b ${input} / \u51fa\u529b ${output} \u00b7 ${cost}`,
+	usageClear: "\u4f7f\u7528\u5c65\u6b74\u3092\u6d88\u53bb",
+	usageClearBtn: "\u6d88\u53bb",
+	usageCleared: "\u4f7f\u7528\u5c65\u6b74\u3092\u6d88\u53bb\u3057\u307e\u3057\u305f",
+	errorHintBudget: "\u8a2d\u5b9a\u3057\u305f\u5229\u7528\u4e0a\u9650\u306b\u9054\u3057\u307e\u3057\u305f\u3002\u8a2d\u5b9a\u753b\u9762\u3067\u4e0a\u9650\u3092\u898b\u76f4\u3059\u304b\u3001\u671f\u9593\u304c\u5207\u308a\u66ff\u308f\u308b\u307e\u3067\u304a\u5f85\u3061\u304f\u3060\u3055\u3044\u3002",
+	budgetHeading: "\u5229\u7528\u4e0a\u9650",
+	budgetDesc: "\u30ea\u30af\u30a8\u30b9\u30c8\u6570\u30fb\u30c8\u30fc\u30af\u30f3\u6570\u30fb\u6982\u7b97\u8cbb\u7528\u306e\u4e0a\u9650\u3002\u4e0a\u9650\u306b\u9054\u3059\u308b\u3068\u30ea\u30af\u30a8\u30b9\u30c8\u306f\u62d2\u5426\u3055\u308c\u307e\u3059\u30020 = \u7121\u5236\u9650",
+	budgetScope: "\u5bfe\u8c61",
+	budgetAllProviders: "\u3059\u3079\u3066\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc",
+	budgetDaily: "1\u65e5",
+	budgetMonthly: "1\u304b\u6708",
+	budgetRequests: "\u30ea\u30af\u30a8\u30b9\u30c8",
+	budgetTokens: "\u30c8\u30fc\u30af\u30f3",
+	budgetCost: "\u8cbb\u7528",
+	budgetLimitDesc: (requests: string, tokens: string, cost: string) => `\u30ea\u30af\u30a8\u30b9\u30c8\u6570 / \u30c8\u30fc\u30af\u30f3\u6570 / \u8cbb\u7528\uff08USD\uff09\u3002\u73fe\u5728: ${requests} / ${tokens} / ${cost}`,
+	budgetWarnAt: "\u8b66\u544a\u306e\u3057\u304d\u3044\u5024\uff08%\uff09",
+	budgetWarnAtDesc: "\u4e0a\u9650\u306b\u5bfe\u3059\u308b\u4f7f\u7528\u7387\u304c\u3053\u306e\u5024\u3092\u8d85\u3048\u308b\u3068\u901a\u77e5\u3057\u307e\u3059\uff08\u30ab\u30f3\u30de\u533a\u5207\u308a\uff09",
+	budgetOllamaFallback: "\u4e0a\u9650\u5230\u9054\u6642\u306fOllama\u3092\u4f7f\u3046",
+	budgetOllamaFallbackDesc: "\u62d2\u5426\u3059\u308b\u4ee3\u308f\u308a\u306b\u3001\u30ed\u30fc\u30ab\u30eb\u306eOllama\u30e2\u30c7\u30eb\u3067\u30ea\u30af\u30a8\u30b9\u30c8\u3092\u51e6\u7406\u3057\u307e\u3059",
+	budgetWarning: (label: string, percent: number, used: string, limit: string) => `\u5229\u7528\u4e0a\u9650\u306e${percent}%\u306b\u9054\u3057\u307e\u3057\u305f\uff08${label}: ${used} / ${limit}\uff09`,
+	cacheHeading: "\u5fdc\u7b54\u30ad\u30e3\u30c3\u30b7\u30e5",
+	cacheEnable: "\u5fdc\u7b54\u3092\u30ad\u30e3\u30c3\u30b7\u30e5\u3059\u308b",
+	cacheEnableDesc: "\u540c\u3058\u5185\u5bb9\u306e\u30ea\u30af\u30a8\u30b9\u30c8\u306b\u306f\u4fdd\u5b58\u6e08\u307f\u306e\u5fdc\u7b54\u3092\u8fd4\u3057\u3001API\u306e\u5229\u7528\u3092\u7bc0\u7d04\u3057\u307e\u3059",
+	cacheTtl: "\u6709\u52b9\u671f\u9593\uff08\u6642\u9593\uff09",
+	cacheTtlDesc: "\u3053\u308c\u3088\u308a\u53e4\u3044\u5fdc\u7b54\u306f\u4f7f\u308f\u305a\u306b\u518d\u53d6\u5f97\u3057\u307e\u3059",
+	cacheMaxSize: "\u6700\u5927\u30b5\u30a4\u30ba\uff08MB\uff09",
+	cacheMaxSizeDesc: "\u8d85\u3048\u305f\u5834\u5408\u306f\u53e4\u3044\u5fdc\u7b54\u304b\u3089\u524a\u9664\u3057\u307e\u3059",
+	cacheStats: (count: number, size: string, rate: string, hits: number, misses: number) => `${count}\u4ef6\uff08${size}\uff09\u00b7 \u30d2\u30c3\u30c8\u7387 ${rate}\uff08\u30d2\u30c3\u30c8 ${hits} / \u30df\u30b9 ${misses}\uff09`,
+	cacheClear: "\u30ad\u30e3\u30c3\u30b7\u30e5\u3092\u6d88\u53bb",
+	cacheClearBtn: "\u6d88\u53bb",
+	cacheCleared: "\u30ad\u30e3\u30c3\u30b7\u30e5\u3092\u6d88\u53bb\u3057\u307e\u3057\u305f",
+	queueHeading: "\u30ea\u30af\u30a8\u30b9\u30c8\u306e\u9806\u756a\u5f85\u3061",
+	queueDesc: "\u540c\u6642\u306b\u9001\u308b\u30ea\u30af\u30a8\u30b9\u30c8\u6570\u3068\u3001\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u3054\u3068\u306e\u901f\u5ea6\u5236\u9650\u3002\u8d85\u3048\u305f\u5206\u306f\u512a\u5148\u5ea6\u9806\u306b\u5f85\u6a5f\u3057\u307e\u3059\u3002",
+	queueMaxConcurrent: "\u6700\u5927\u540c\u6642\u30ea\u30af\u30a8\u30b9\u30c8\u6570",
+	queueMaxConcurrentDesc: "\u3059\u3079\u3066\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u306e\u5408\u8a08",
+	queueProviderDesc: "\u540c\u6642\u5b9f\u884c\u6570 / 1\u5206\u3042\u305f\u308a\u306e\u30ea\u30af\u30a8\u30b9\u30c8\u6570 / 1\u5206\u3042\u305f\u308a\u306e\u30c8\u30fc\u30af\u30f3\u6570\u3002\u7a7a\u6b04 = \u7121\u5236\u9650",
+	queueConcurrency: "\u540c\u6642",
+	taskHeading: "\u7528\u9014\u5225\u306e\u30e2\u30c7\u30eb",
+	taskDesc: "\u30d7\u30e9\u30b0\u30a4\u30f3\u304c\u30ea\u30af\u30a8\u30b9\u30c8\u306b\u4ed8\u3051\u305f\u7528\u9014\u30bf\u30b0\uff08hint\u3001diagnosis\u3001rewrite \u306a\u3069\uff09\u3054\u3068\u306b\u3001\u4f7f\u3046\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u3068\u30e2\u30c7\u30eb\u3092\u6307\u5b9a\u3057\u307e\u3059\u3002\u6307\u5b9a\u306e\u306a\u3044\u30bf\u30b0\u306f\u4e0a\u306e\u30e1\u30a4\u30f3\u8a2d\u5b9a\u3092\u4f7f\u3044\u307e\u3059\u3002",
+	taskTagPlaceholder: "\u30bf\u30b0\uff08\u4f8b: hint\uff09",
+	taskAdd: "+ \u7528\u9014\u3092\u8ffd\u52a0",
+	taskRemove: "\u524a\u9664",
+	taskMissingKey: (name: string) => `${name}\u306eAPI\u30ad\u30fc\u304c\u672a\u8a2d\u5b9a\u3067\u3059\u3002\u3053\u306e\u30bf\u30b0\u306e\u30ea\u30af\u30a8\u30b9\u30c8\u306f\u5931\u6557\u3057\u307e\u3059\u3002`,
+	paramHeading: "\u751f\u6210\u30d1\u30e9\u30e1\u30fc\u30bf\u306e\u30d7\u30ea\u30bb\u30c3\u30c8",
+	paramDesc: "temperature \u306a\u3069\u306e\u7d44\u307f\u5408\u308f\u305b\u306b\u540d\u524d\u3092\u4ed8\u3051\u307e\u3059\u3002\u9023\u643a\u30d7\u30e9\u30b0\u30a4\u30f3\u306f\u30ea\u30af\u30a8\u30b9\u30c8\u306e preset \u3067\u540d\u524d\u3092\u6307\u5b9a\u3067\u304d\u307e\u3059\u3002\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u304c\u5bfe\u5fdc\u3057\u306a\u3044\u5024\u306f\u7121\u8996\u3055\u308c\u307e\u3059\u3002",
+	paramNamePlaceholder: "\u30d7\u30ea\u30bb\u30c3\u30c8\u540d",
+	paramRemove: "\u3053\u306e\u30d7\u30ea\u30bb\u30c3\u30c8\u3092\u524a\u9664",
+	paramAdd: "+ \u30d7\u30ea\u30bb\u30c3\u30c8\u3092\u8ffd\u52a0",
+	auditHeading: "\u76e3\u67fb\u30ed\u30b0",
+	auditEnable: "\u30ea\u30af\u30a8\u30b9\u30c8\u3068\u5fdc\u7b54\u3092\u8a18\u9332",
+	auditEnableDesc: "\u30b7\u30b9\u30c6\u30e0\u30d7\u30ed\u30f3\u30d7\u30c8\u30fb\u30e1\u30c3\u30bb\u30fc\u30b8\u30fb\u5fdc\u7b54\u30fb\u30e2\u30c7\u30eb\u30fb\u6240\u8981\u6642\u9593\u30fb\u30c8\u30fc\u30af\u30f3\u6570\u30fb\u30a8\u30e9\u30fc\u3092\u4fdd\u7ba1\u5eab\u306b\u4fdd\u5b58\u3057\u307e\u3059\u3002API \u30ad\u30fc\u306f\u4f0f\u305b\u5b57\u306b\u3057\u307e\u3059\u304c\u3001\u30d7\u30ed\u30f3\u30d7\u30c8\u306e\u672c\u6587\u306f\u305d\u306e\u307e\u307e\u6b8b\u308a\u307e\u3059\u3002",
+	auditFolder: "\u4fdd\u5b58\u30d5\u30a9\u30eb\u30c0",
+	auditFolderDesc: "1 \u65e5\u3054\u3068\u306b 1 \u30d5\u30a1\u30a4\u30eb\u4f5c\u6210\u3055\u308c\u307e\u3059",
+	auditFormat: "\u5f62\u5f0f",
+	auditRetention: "\u4fdd\u5b58\u671f\u9593\uff08\u65e5\uff09",
+	auditRetentionDesc: "\u3053\u308c\u3088\u308a\u53e4\u3044\u65e5\u306e\u30d5\u30a1\u30a4\u30eb\u3092\u524a\u9664\u3057\u307e\u3059\u30020 \u3067\u7121\u671f\u9650\u3002",
+	mockProvider: "\u30e2\u30c3\u30af\uff08\u30aa\u30d5\u30e9\u30a4\u30f3\u958b\u767a\u7528\uff09",
+	mockMode: "\u30e2\u30fc\u30c9",
+	mockModeDesc: "\u30b9\u30af\u30ea\u30d7\u30c8\u306f\u898f\u5247\u3067\u5fdc\u7b54\u3057\u3001\u8a18\u9332\u306f\u5b9f\u969b\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u306e\u5fdc\u7b54\u3092\u30d5\u30a3\u30af\u30b9\u30c1\u30e3\u306b\u4fdd\u5b58\u3057\u3001\u518d\u751f\u306f\u4fdd\u5b58\u3057\u305f\u5fdc\u7b54\u3092\u8fd4\u3057\u307e\u3059\u3002",
+	mockModeScript: "\u30b9\u30af\u30ea\u30d7\u30c8",
+	mockModeRecord: "\u8a18\u9332",
+	mockModeReplay: "\u518d\u751f",
+	mockPatternPlaceholder: "\u6b63\u898f\u8868\u73fe\uff08\u30b7\u30b9\u30c6\u30e0\u30d7\u30ed\u30f3\u30d7\u30c8\uff0b\u30e1\u30c3\u30bb\u30fc\u30b8\uff09",
+	mockResponsePlaceholder: "\u5fdc\u7b54\uff08$1 \u3067\u30ad\u30e3\u30d7\u30c1\u30e3\u3092\u633f\u5165\uff09",
+	mockRemoveRule: "\u3053\u306e\u898f\u5247\u3092\u524a\u9664",
+	mockAddRule: "+ \u898f\u5247\u3092\u8ffd\u52a0",
+	mockDefaultResponse: "\u65e2\u5b9a\u306e\u5fdc\u7b54",
+	mockDefaultResponseDesc: "\u3069\u306e\u898f\u5247\u306b\u3082\u4e00\u81f4\u3057\u306a\u3044\u3068\u304d\u306e\u5fdc\u7b54\u3002\u7a7a\u6b04\u306b\u3059\u308b\u3068\u30a8\u30e9\u30fc\u306b\u306a\u308a\u307e\u3059\u3002",
+	mockRecordProvider: "\u8a18\u9332\u5143\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc",
+	mockRecordProviderDesc: "\u3053\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u306e API \u30ad\u30fc\u3068\u30e2\u30c7\u30eb\u8a2d\u5b9a\u3092\u4f7f\u3044\u307e\u3059",
+	mockFixtureFile: "\u30d5\u30a3\u30af\u30b9\u30c1\u30e3\u30d5\u30a1\u30a4\u30eb",
+	mockFixtureFileDesc: "\u4fdd\u7ba1\u5eab\u5185\u306e JSON \u30d5\u30a1\u30a4\u30eb\u306e\u30d1\u30b9",
+	keysHeading: "API \u30ad\u30fc\u306e\u6697\u53f7\u5316",
+	keysLockedNotice: "Muse Weaver AI Bridge: API \u30ad\u30fc\u306f\u30ed\u30c3\u30af\u3055\u308c\u3066\u3044\u307e\u3059\u3002\u8a2d\u5b9a\u753b\u9762\u3067\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u5165\u529b\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
+	keysLockedDesc: "API \u30ad\u30fc\u306f\u30ed\u30c3\u30af\u3055\u308c\u3066\u3044\u307e\u3059\u3002\u4e0b\u306e\u300cAPI \u30ad\u30fc\u306e\u6697\u53f7\u5316\u300d\u3067\u89e3\u9664\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
+	keysUnlock: "\u30ed\u30c3\u30af\u89e3\u9664",
+	keysUnlockDesc: "\u3053\u306e\u30bb\u30c3\u30b7\u30e7\u30f3\u306e\u9593\u3060\u3051\u3001\u30ad\u30fc\u3092\u30e1\u30e2\u30ea\u4e0a\u3067\u5fa9\u53f7\u3057\u307e\u3059\u3002\u5e73\u6587\u306e\u307e\u307e\u6b8b\u3063\u3066\u3044\u308b\u30ad\u30fc\u3082\u3053\u306e\u3068\u304d\u6697\u53f7\u5316\u3057\u307e\u3059",
+	keysUnlockBtn: "\u89e3\u9664",
+	keysWrongPassphrase: "\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u304c\u9055\u3044\u307e\u3059",
+	keysPassphrase: "\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba",
+	keysConfirm: "\u78ba\u8a8d\u306e\u305f\u3081\u3082\u3046\u4e00\u5ea6",
+	keysLock: "\u30ed\u30c3\u30af",
+	keysLockDesc: "\u5fa9\u53f7\u3057\u305f\u30ad\u30fc\u3092\u30e1\u30e2\u30ea\u304b\u3089\u6d88\u53bb\u3057\u307e\u3059\u3002\u518d\u3073\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u5165\u529b\u3059\u308b\u307e\u3067 AI \u306f\u4f7f\u3048\u307e\u305b\u3093\u3002",
+	keysLockBtn: "\u30ed\u30c3\u30af",
+	keysEncrypt: "\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3067\u6697\u53f7\u5316",
+	keysEncryptDesc: "\u73fe\u5728\u3001API \u30ad\u30fc\u306f data.json \u306b\u5e73\u6587\u3067\u4fdd\u5b58\u3055\u308c\u3066\u3044\u307e\u3059\u3002\u4fdd\u7ba1\u5eab\u3092\u30af\u30e9\u30a6\u30c9\u3067\u540c\u671f\u3057\u3066\u3044\u308b\u5834\u5408\u306f\u6697\u53f7\u5316\u3092\u304a\u3059\u3059\u3081\u3057\u307e\u3059\u3002\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u5fd8\u308c\u308b\u3068\u30ad\u30fc\u306f\u5fa9\u5143\u3067\u304d\u307e\u305b\u3093\u3002\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u8a2d\u5b9a\u3059\u308b\u307e\u3067\u3001\u4fdd\u5b58\u6e08\u307f\u306e\u30ad\u30fc\u306f\u5e73\u6587\u306e\u307e\u307e\u6b8b\u308a\u307e\u3059\uff08\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u306a\u3057\u3067\u306f\u6697\u53f7\u5316\u3067\u304d\u307e\u305b\u3093\uff09\u3002",
+	keysEncryptBtn: "\u6697\u53f7\u5316",
+	keysChangePassphrase: "\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u306e\u5909\u66f4",
+	keysChangePassphraseDesc: "\u30ad\u30fc\u3092\u65b0\u3057\u3044\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3067\u6697\u53f7\u5316\u3057\u76f4\u3057\u307e\u3059",
+	keysChangeBtn: "\u5909\u66f4",
+	keysMismatch: "\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u304c\u4e00\u81f4\u3057\u307e\u305b\u3093",
+	keysSaved: "API \u30ad\u30fc\u3092\u6697\u53f7\u5316\u3057\u307e\u3057\u305f",
+	keySource: "\u30ad\u30fc\u306e\u53d6\u5f97\u5143",
+	keySourceDesc: "\u74b0\u5883\u5909\u6570\u3084\u4fdd\u7ba1\u5eab\u5916\u306e\u30d5\u30a1\u30a4\u30eb\u304b\u3089\u8aad\u307f\u8fbc\u3081\u3070\u3001\u30ad\u30fc\u3092\u540c\u671f\u3055\u308c\u308b\u4fdd\u7ba1\u5eab\u306b\u7f6e\u304b\u305a\u306b\u6e08\u307f\u307e\u3059\uff08\u30c7\u30b9\u30af\u30c8\u30c3\u30d7\u7248\u306e\u307f\uff09",
+	keySourceStored: "\u8a2d\u5b9a\u306b\u4fdd\u5b58",
+	keySourceEnv: "\u74b0\u5883\u5909\u6570",
+	keySourceFile: "\u30d5\u30a1\u30a4\u30eb",
+	keyRefEnv: "\u74b0\u5883\u5909\u6570\u540d",
+	keyRefFile: "\u30d5\u30a1\u30a4\u30eb\u306e\u30d1\u30b9",
+	keyResolved: "\u8aad\u307f\u8fbc\u3081\u307e\u3057\u305f\uff08\u30ad\u30fc\u306f\u8868\u793a\u3057\u307e\u305b\u3093\uff09",
+	keyUnavailable: "\u30e2\u30d0\u30a4\u30eb\u3067\u306f\u4f7f\u3048\u307e\u305b\u3093\u3002\u4e0b\u306e\u4fdd\u5b58\u6e08\u307f\u30ad\u30fc\u3092\u4f7f\u3044\u307e\u3059\u3002",
+	keyMissing: (detail: string) => `\u8aad\u307f\u8fbc\u3081\u307e\u305b\u3093\uff08${detail}\uff09\u3002\u4e0b\u306e\u4fdd\u5b58\u6e08\u307f\u30ad\u30fc\u3092\u4f7f\u3044\u307e\u3059\u3002`,
+	apiKeyFallback: "\u4fdd\u5b58\u6e08\u307f\u30ad\u30fc\uff08\u4e88\u5099\uff09",
+	apiKeyFallbackDesc: "\u4e0a\u306e\u53d6\u5f97\u5143\u304c\u4f7f\u3048\u306a\u3044\u3068\u304d\uff08\u30e2\u30d0\u30a4\u30eb\u306a\u3069\uff09\u306b\u4f7f\u3044\u307e\u3059\u3002\u7a7a\u6b04\u3067\u3082\u69cb\u3044\u307e\u305b\u3093\u3002",
+	profileHeading: "\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u3068\u30d0\u30c3\u30af\u30a2\u30c3\u30d7",
+	profileDesc: "API \u30ad\u30fc\u306f\u66f8\u304d\u51fa\u3057\u306b\u3082\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u306b\u3082\u542b\u307e\u308c\u307e\u305b\u3093\u3002\u3053\u306e\u7aef\u672b\u306e\u30ad\u30fc\u306f\u5e38\u306b\u4fdd\u6301\u3055\u308c\u307e\u3059\u3002",
+	profileSwitch: "\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb",
+	profileActive: (name: string) => `\u4f7f\u7528\u4e2d: ${name}`,
+	profileSwitchBtn: "\u5207\u308a\u66ff\u3048",
+	profileSwitched: (name: string) => `\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u300c${name}\u300d\u306b\u5207\u308a\u66ff\u3048\u307e\u3057\u305f`,
+	profileDelete: "\u3053\u306e\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u3092\u524a\u9664",
+	profileSave: "\u73fe\u5728\u306e\u8a2d\u5b9a\u3092\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u3068\u3057\u3066\u4fdd\u5b58",
+	profileSaveDesc: "\u540c\u3058\u540d\u524d\u306e\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u306f\u4e0a\u66f8\u304d\u3055\u308c\u307e\u3059",
+	profileNamePlaceholder: "\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u540d",
+	profileSaveBtn: "\u4fdd\u5b58",
+	profileSaved: (name: string) => `\u30d7\u30ed\u30d5\u30a1\u30a4\u30eb\u300c${name}\u300d\u3092\u4fdd\u5b58\u3057\u307e\u3057\u305f`,
+	exportFile: "\u66f8\u304d\u51fa\u3057\u30d5\u30a1\u30a4\u30eb",
+	exportFileDesc: "\u66f8\u304d\u51fa\u3057\u3068\u8aad\u307f\u8fbc\u307f\u306b\u4f7f\u3046\u4fdd\u7ba1\u5eab\u5185\u306e JSON \u30d5\u30a1\u30a4\u30eb",
+	exportHeading: "\u8a2d\u5b9a\u3092\u66f8\u304d\u51fa\u3059",
+	exportDesc: "\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u30fb\u30e2\u30c7\u30eb\u30fb\u30da\u30eb\u30bd\u30ca\u306a\u3069\u306e\u8a2d\u5b9a\u3092 JSON \u3067\u66f8\u304d\u51fa\u3057\u307e\u3059",
+	exportCopy: "\u30af\u30ea\u30c3\u30d7\u30dc\u30fc\u30c9\u306b\u30b3\u30d4\u30fc",
+	exportCopied: "\u8a2d\u5b9a\u3092\u30af\u30ea\u30c3\u30d7\u30dc\u30fc\u30c9\u306b\u30b3\u30d4\u30fc\u3057\u307e\u3057\u305f",
+	exportSave: "\u30d5\u30a1\u30a4\u30eb\u306b\u4fdd\u5b58",
+	exportSaved: (path: string) => `\u8a2d\u5b9a\u3092 ${path} \u306b\u4fdd\u5b58\u3057\u307e\u3057\u305f`,
+	exportFailed: (error: string) => `\u66f8\u304d\u51fa\u305b\u307e\u305b\u3093\u3067\u3057\u305f: ${error}`,
+	importHeading: "\u8a2d\u5b9a\u3092\u8aad\u307f\u8fbc\u3080",
+	importDesc: "\u7d71\u5408\u306f\u66f8\u304d\u51fa\u3057\u306b\u542b\u307e\u308c\u306a\u3044\u8a2d\u5b9a\u3092\u6b8b\u3057\u3001\u7f6e\u63db\u306f\u521d\u671f\u5024\u306b\u623b\u3057\u307e\u3059",
+	importMerge: "\u7d71\u5408",
+	importReplace: "\u7f6e\u63db",
+	importClipboard: "\u30af\u30ea\u30c3\u30d7\u30dc\u30fc\u30c9\u304b\u3089",
+	importFile: "\u30d5\u30a1\u30a4\u30eb\u304b\u3089",
+	importFailed: (error: string) => `\u8aad\u307f\u8fbc\u3081\u307e\u305b\u3093\u3067\u3057\u305f: ${error}`,
+	importDone: "\u8a2d\u5b9a\u3092\u8aad\u307f\u8fbc\u307f\u307e\u3057\u305f",
+	personaFolder: "\u30da\u30eb\u30bd\u30ca\u30ce\u30fc\u30c8\u306e\u30d5\u30a9\u30eb\u30c0",
+	personaFolderDesc: (n: number) => `\u3053\u306e\u30d5\u30a9\u30eb\u30c0\u5185\u306e\u30ce\u30fc\u30c8\u3092\u5c0e\u304d\u624b\u3068\u3057\u3066\u4e00\u89a7\u306b\u52a0\u3048\u307e\u3059\uff08\u30d5\u30ed\u30f3\u30c8\u30de\u30bf\u30fc: name, icon, firstPerson, speechStyle, tone\uff0f\u672c\u6587\u304c\u30d7\u30ed\u30f3\u30d7\u30c8\uff09\u3002${n}\u4ef6\u898b\u3064\u304b\u308a\u307e\u3057\u305f`,
+	personaFolderEmpty: "\u5148\u306b\u30d5\u30a9\u30eb\u30c0\u3092\u6307\u5b9a\u3057\u3066\u304f\u3060\u3055\u3044",
+	personaNoteNew: "\u65b0\u3057\u3044\u30da\u30eb\u30bd\u30ca\u30ce\u30fc\u30c8",
+	personaNoteNewName: "\u65b0\u3057\u3044\u30da\u30eb\u30bd\u30ca",
+	personaNoteNewFailed: "\u30da\u30eb\u30bd\u30ca\u30ce\u30fc\u30c8\u3092\u4f5c\u6210\u3067\u304d\u307e\u305b\u3093\u3067\u3057\u305f",
+	personaNoteTag: "\u30ce\u30fc\u30c8",
+	personaNoteMissing: "\u898b\u3064\u304b\u308a\u307e\u305b\u3093\u3002\u6a19\u6e96\u306e\u5c0e\u304d\u624b\u3092\u4f7f\u3044\u307e\u3059",
+	personaNoteOpen: "\u3053\u306e\u5c0e\u304d\u624b\u306f\u30ce\u30fc\u30c8\u3067\u7de8\u96c6\u3057\u307e\u3059",
+	personaNoteOpenBtn: "\u30ce\u30fc\u30c8\u3092\u958b\u304f",
+	guideStartFrom: "\u30d7\u30ea\u30bb\u30c3\u30c8\u304b\u3089\u59cb\u3081\u308b",
+	guideStartFromDesc: "\u30d7\u30ea\u30bb\u30c3\u30c8\u306e\u8a2d\u5b9a\u3068\u8a73\u7d30\u30eb\u30fc\u30eb\u3092\u30b3\u30d4\u30fc\u3057\u3066\u7de8\u96c6\u3057\u307e\u3059\uff08\u73fe\u5728\u306e\u30ab\u30b9\u30bf\u30e0\u5185\u5bb9\u306f\u4e0a\u66f8\u304d\u3055\u308c\u307e\u3059\uff09",
+	guideStartFromBtn: "\u30b3\u30d4\u30fc",
+	guideStartFromDone: (name: string) => `${name}\u306e\u30eb\u30fc\u30eb\u3092\u30b3\u30d4\u30fc\u3057\u307e\u3057\u305f`,
+	guideIntro: "\u4eba\u7269\u50cf",
+	guideIntroDesc: "\u30d7\u30ed\u30f3\u30d7\u30c8\u306e\u5192\u982d\u3002\u7a7a\u6b04\u306a\u3089\u795e\u540d\u3068\u53e3\u8abf\u306e\u8aac\u660e\u304b\u3089\u4f5c\u308a\u307e\u3059",
+	guideToneRules: "\u53e3\u8abf\u306e\u30eb\u30fc\u30eb",
+	guideOnePerLine: "1\u884c\u306b1\u3064",
+	guideDeepening: "\u6df1\u6398\u308a\u306e\u554f\u3044\u304b\u3051\u65b9",
+	guideDeepeningDesc: "\u7269\u8a9e\u3092\u6398\u308a\u4e0b\u3052\u308b\u554f\u3044\u3092\u3069\u3046\u6295\u3052\u304b\u3051\u308b\u304b",
+	guideGoodExamples: "\u826f\u3044\u4f8b",
+	guideForbidden: "\u60aa\u3044\u4f8b\uff08\u7981\u6b62\uff09",
+	guideForbiddenDesc: "\u4f7f\u3063\u3066\u306f\u3044\u3051\u306a\u3044\u8a00\u3044\u56de\u3057\u3084\u4f8b\u30021\u884c\u306b1\u3064",
+	guidePromptPreview: "AI\u306b\u9001\u3089\u308c\u308b\u30d7\u30ed\u30f3\u30d7\u30c8\u3092\u8868\u793a",
+	auditionHeading: "\u5c0e\u304d\u624b\u306e\u8074\u304d\u6bd4\u3079",
+	auditionSnippetName: "\u7269\u8a9e\u306e\u65ad\u7247",
+	auditionDesc: "\u73fe\u5728\u306e\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u3068\u30e2\u30c7\u30eb\u3067\u3001\u3059\u3079\u3066\u306e\u5c0e\u304d\u624b\u306b\u540c\u3058\u65ad\u7247\u3078\u8fd4\u7b54\u3055\u305b\u307e\u3059\u3002\u7d50\u679c\u306f\u30d7\u30ed\u30d0\u30a4\u30c0\u30fc\u30fb\u30e2\u30c7\u30eb\u30fb\u5c0e\u304d\u624b\u304c\u5909\u308f\u308b\u307e\u3067\u518d\u5229\u7528\u3055\u308c\u307e\u3059\u3002\u5c0e\u304d\u624b\u306e\u6570\u3060\u3051\u30ea\u30af\u30a8\u30b9\u30c8\u304c\u9001\u3089\u308c\u307e\u3059",
+	auditionSnippet: "\u706f\u53f0\u5b88\u306e\u5c11\u5973\u306f\u3001\u6bce\u6669\u6d77\u306b\u5411\u304b\u3063\u3066\u624b\u7d19\u3092\u8aad\u307f\u4e0a\u3052\u308b\u3002\u8fd4\u4e8b\u304c\u6765\u305f\u3053\u3068\u306f\u4e00\u5ea6\u3082\u306a\u3044\u2014\u2014\u6628\u591c\u307e\u3067\u306f\u3002",
+	auditionRun: "\u8074\u304d\u6bd4\u3079\u308b",
+	auditionRunning: "\u8fd4\u7b54\u3092\u5f85\u3063\u3066\u3044\u307e\u3059\u2026",
+	auditionLatency: (ms: number) => `${ms} ms`,
+	auditionInstruction: "\u30e6\u30fc\u30b6\u30fc\u306e\u7269\u8a9e\u306e\u30a2\u30a4\u30c7\u30a2\u306b\u3001\u3042\u306a\u305f\u3089\u3057\u3044\u53e3\u8abf\u30672\u301c3\u6587\u3067\u5fdc\u3048\u3001\u6700\u5f8c\u306b\u554f\u3044\u3092\u3072\u3068\u3064\u6dfb\u3048\u3066\u304f\u3060\u3055\u3044\u3002",
+	keysPlaintextNotice: "Muse Weaver AI Bridge: API \u30ad\u30fc\u304c data.json \u306b\u5e73\u6587\u3067\u4fdd\u5b58\u3055\u308c\u3066\u3044\u307e\u3059\u3002\u8a2d\u5b9a\u753b\u9762\u306e\u300cAPI \u30ad\u30fc\u306e\u6697\u53f7\u5316\u300d\u3067\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u8a2d\u5b9a\u3059\u308b\u304b\u3001\u74b0\u5883\u5909\u6570\u3084\u30d5\u30a1\u30a4\u30eb\u304b\u3089\u8aad\u307f\u8fbc\u3080\u3088\u3046\u306b\u3057\u3066\u304f\u3060\u3055\u3044\u3002",
+	keysPlaintextLockedNotice: "Muse Weaver AI Bridge: \u5e73\u6587\u306e API \u30ad\u30fc\u304c\u6b8b\u3063\u3066\u3044\u307e\u3059\u3002\u8a2d\u5b9a\u753b\u9762\u3067\u30d1\u30b9\u30d5\u30ec\u30fc\u30ba\u3092\u5165\u529b\u3057\u3066\u30ed\u30c3\u30af\u3092\u89e3\u9664\u3059\u308b\u3068\u6697\u53f7\u5316\u3055\u308c\u307e\u3059\u3002",
 };
 
 const en: typeof ja = {
@@ -59,6 +268,7 @@ const en: typeof ja = {
 	provider: "Provider",
 	apiKey: "API Key",
 	apiKeyDesc: (name: string) => `Enter your ${name} API key`,
+	apiKeyOptionalDesc: "Only if the server requires authentication (local servers usually don't)",
 	model: "Model",
 	ollamaModel: "Model Name",
 	ollamaModelDesc: "Name of a model installed in Ollama",
@@ -73,6 +283,12 @@ const en: typeof ja = {
 	resetName: "Reset Settings",
 	resetDesc: "Clear all settings including API keys.",
 	resetBtn: "Clear All",
+	openAiCompatible: "OpenAI-compatible (LM Studio / vLLM / OpenRouter etc.)",
+	compatibleBaseUrl: "Base URL",
+	compatibleBaseUrlDesc: "API root including /v1 (e.g. http://localhost:1234/v1, https://openrouter.ai/api/v1)",
+	compatibleHeaders: "Extra headers",
+	compatibleHeadersDesc: "One \"Name: value\" per line",
+	compatibleNoModels: "Could not list models from the server. Enter the model name directly.",
 	ollamaLocal: "Ollama (Local)",
 	ollamaFetchingModels: "Fetching models\u2026",
 	ollamaNoModels: "Ollama is not running or no models installed.",
@@ -96,6 +312,208 @@ const en: typeof ja = {
 	guideTone: "Tone description",
 	guideToneDesc: "Used as tone instructions for AI",
 	guideCustom: "\u2728 Custom",
+	retryHeading: "Retry",
+	retryAttempts: "Max attempts",
+	retryAttemptsDesc: "Attempts on rate limits, server errors and timeouts (including the first)",
+	retryBaseDelay: "Initial delay (seconds)",
+	retryBaseDelayDesc: "Doubles with each retry",
+	retryMaxDelay: "Max delay (seconds)",
+	retryMaxDelayDesc: "Gives up if the server asks to wait longer than this",
+	retryJitter: "Randomize delays",
+	fallbackHeading: "Fallback",
+	fallbackDesc: "Tried from top to bottom when the main provider fails with a connection error, server error, rate limit or timeout.",
+	fallbackEntry: (n: number) => `Fallback ${n}`,
+	fallbackAdd: "+ Add fallback",
+	fallbackMoveUp: "Move up",
+	fallbackMoveDown: "Move down",
+	fallbackRemove: "Remove",
+	fallbackMissingKey: (name: string) => `Skipped: no ${name} API key. Switch to that provider above to enter one.`,
+	errorHintAuth: "Check that your API key is correct and has not expired.",
+	errorHintRateLimit: "Too many requests right now. Please wait a moment and try again.",
+	errorHintQuota: "Your usage quota or credit is exhausted. Check billing in your provider's dashboard.",
+	errorHintSafety: "The provider's safety filter blocked this request. Try rephrasing it.",
+	errorHintTruncated: "The reply hit the max token limit. Increase max tokens.",
+	errorHintTimeout: "The provider did not respond in time. The model may be too large or the server busy.",
+	errorHintNetwork: "Cannot reach the server. Check your network connection, or that Ollama is running.",
+	errorHintBadRequest: "The request was rejected. Check the model name and settings.",
+	errorHintInvalidOutput: "The model did not return the expected format. Try a more capable model.",
+	errorHintVision: "This model does not accept images. Choose a vision-capable model.",
+	errorHintServer: "The provider is having trouble. Please try again later.",
+	retryJitterDesc: "Keeps several requests from retrying at the same moment",
+	usageHeading: "Token usage",
+	usageDesc: "Input and output tokens over the last 14 days. Costs are estimates from list prices.",
+	usageEmpty: "No requests recorded yet.",
+	usageByConsumer: "By plugin (last 30 days)",
+	usageByModel: "By model (last 30 days)",
+	usageUnknownConsumer: "Untagged",
+	usageSummary: (requests: number, input: string, output: string, cost: string) => `${requests} requests \u00b7 ${input} in / ${output} out tokens \u00b7 ${cost}`,
+	usageDayTooltip: (date: string, input: string, output: string, cost: string) => `${date}: ${input} in / ${output} out \u00b7 ${cost}`,
+	usageClear: "Clear usage history",
+	usageClearBtn: "Clear",
+	usageCleared: "Usage history cleared",
+	errorHintBudget: "A usage cap you set has been reached. Raise it in settings or wait for the next period.",
+	budgetHeading: "Budgets",
+	budgetDesc: "Caps on requests, tokens and estimated cost. Requests are refused once a cap is reached. 0 = no limit.",
+	budgetScope: "Applies to",
+	budgetAllProviders: "All providers",
+	budgetDaily: "Daily",
+	budgetMonthly: "Monthly",
+	budgetRequests: "Requests",
+	budgetTokens: "Tokens",
+	budgetCost: "Cost",
+	budgetLimitDesc: (requests: string, tokens: string, cost: string) => `Requests / tokens / cost (USD). Used: ${requests} / ${tokens} / ${cost}`,
+	budgetWarnAt: "Warning thresholds (%)",
+	budgetWarnAtDesc: "Show a notice when usage passes these percentages of a cap (comma-separated)",
+	budgetOllamaFallback: "Use Ollama when a cap is reached",
+	budgetOllamaFallbackDesc: "Send requests to your local Ollama model instead of refusing them",
+	budgetWarning: (label: string, percent: number, used: string, limit: string) => `${percent}% of budget used (${label}: ${used} / ${limit})`,
+	cacheHeading: "Response cache",
+	cacheEnable: "Cache responses",
+	cacheEnableDesc: "Identical requests are answered from saved replies instead of calling the API again",
+	cacheTtl: "Time to live (hours)",
+	cacheTtlDesc: "Older replies are fetched again",
+	cacheMaxSize: "Maximum size (MB)",
+	cacheMaxSizeDesc: "The oldest replies are removed beyond this size",
+	cacheStats: (count: number, size: string, rate: string, hits: number, misses: number) => `${count} entries (${size}) \u00b7 hit rate ${rate} (${hits} hits / ${misses} misses)`,
+	cacheClear: "Clear cache",
+	cacheClearBtn: "Clear",
+	cacheCleared: "Cache cleared",
+	queueHeading: "Request queue",
+	queueDesc: "How many requests run at once, and per-provider rate limits. Extra requests wait in priority order.",
+	queueMaxConcurrent: "Max concurrent requests",
+	queueMaxConcurrentDesc: "Across all providers",
+	queueProviderDesc: "Concurrency / requests per minute / tokens per minute. Empty = no limit",
+	queueConcurrency: "Parallel",
+	taskHeading: "Models by task",
+	taskDesc: "Choose a provider and model for each task tag that plugins attach to requests (hint, diagnosis, rewrite, \u2026). Other tags use the main provider above.",
+	taskTagPlaceholder: "Tag (e.g. hint)",
+	taskAdd: "+ Add task",
+	taskRemove: "Remove",
+	taskMissingKey: (name: string) => `No ${name} API key: requests with this tag will fail.`,
+	paramHeading: "Parameter presets",
+	paramDesc: "Name a set of sampling parameters. Consumer plugins refer to it with the request's preset field. Values a provider does not support are ignored.",
+	paramNamePlaceholder: "Preset name",
+	paramRemove: "Remove this preset",
+	paramAdd: "+ Add preset",
+	auditHeading: "Audit log",
+	auditEnable: "Log requests and responses",
+	auditEnableDesc: "Saves the system prompt, message, response, model, latency, tokens and error of each request to your vault. API keys are redacted, but prompt text is kept as is.",
+	auditFolder: "Folder",
+	auditFolderDesc: "One file is created per day",
+	auditFormat: "Format",
+	auditRetention: "Keep for (days)",
+	auditRetentionDesc: "Files for older days are deleted. 0 keeps them forever.",
+	mockProvider: "Mock (offline development)",
+	mockMode: "Mode",
+	mockModeDesc: "Script answers from rules, record saves a real provider's replies to a fixture file, and replay serves the saved replies.",
+	mockModeScript: "Script",
+	mockModeRecord: "Record",
+	mockModeReplay: "Replay",
+	mockPatternPlaceholder: "Regex (system prompt + message)",
+	mockResponsePlaceholder: "Reply ($1 inserts a capture group)",
+	mockRemoveRule: "Remove this rule",
+	mockAddRule: "+ Add rule",
+	mockDefaultResponse: "Default reply",
+	mockDefaultResponseDesc: "Used when no rule matches. Leave empty to fail instead.",
+	mockRecordProvider: "Record from",
+	mockRecordProviderDesc: "Uses this provider's API key and model settings",
+	mockFixtureFile: "Fixture file",
+	mockFixtureFileDesc: "Path of a JSON file in your vault",
+	keysHeading: "API key encryption",
+	keysLockedNotice: "Muse Weaver AI Bridge: API keys are locked. Enter your passphrase in the settings tab.",
+	keysLockedDesc: "API keys are locked. Unlock them under API key encryption below.",
+	keysUnlock: "Unlock",
+	keysUnlockDesc: "Decrypts the keys in memory for this session; keys still in plain text are encrypted at the same time",
+	keysUnlockBtn: "Unlock",
+	keysWrongPassphrase: "Wrong passphrase",
+	keysPassphrase: "Passphrase",
+	keysConfirm: "Confirm passphrase",
+	keysLock: "Lock",
+	keysLockDesc: "Removes the decrypted keys from memory. AI requests fail until you enter the passphrase again.",
+	keysLockBtn: "Lock",
+	keysEncrypt: "Encrypt with a passphrase",
+	keysEncryptDesc: "API keys are currently stored in plain text in data.json. Encryption is recommended if your vault syncs to a cloud service. Keys cannot be recovered if you forget the passphrase. Keys already saved stay in plain text until you set one, since they cannot be encrypted without a passphrase.",
+	keysEncryptBtn: "Encrypt",
+	keysChangePassphrase: "Change passphrase",
+	keysChangePassphraseDesc: "Re-encrypts the keys with a new passphrase",
+	keysChangeBtn: "Change",
+	keysMismatch: "Passphrases do not match",
+	keysSaved: "API keys encrypted",
+	keySource: "Key source",
+	keySourceDesc: "Reading the key from an environment variable or a file outside the vault keeps it out of your synced vault (desktop only)",
+	keySourceStored: "Stored in settings",
+	keySourceEnv: "Environment variable",
+	keySourceFile: "File",
+	keyRefEnv: "Variable name",
+	keyRefFile: "File path",
+	keyResolved: "Key found (not shown)",
+	keyUnavailable: "Not available on mobile. The stored key below is used instead.",
+	keyMissing: (detail: string) => `Not found (${detail}). The stored key below is used instead.`,
+	apiKeyFallback: "Stored key (fallback)",
+	apiKeyFallbackDesc: "Used when the source above is unavailable, e.g. on mobile. May be left empty.",
+	profileHeading: "Profiles and backup",
+	profileDesc: "API keys are never included in exports or profiles. Keys on this device are always kept.",
+	profileSwitch: "Profile",
+	profileActive: (name: string) => `Active: ${name}`,
+	profileSwitchBtn: "Switch",
+	profileSwitched: (name: string) => `Switched to profile "${name}"`,
+	profileDelete: "Delete this profile",
+	profileSave: "Save current settings as a profile",
+	profileSaveDesc: "A profile with the same name is overwritten",
+	profileNamePlaceholder: "Profile name",
+	profileSaveBtn: "Save",
+	profileSaved: (name: string) => `Saved profile "${name}"`,
+	exportFile: "Export file",
+	exportFileDesc: "JSON file in your vault used for export and import",
+	exportHeading: "Export settings",
+	exportDesc: "Exports provider, model, persona and other settings as JSON",
+	exportCopy: "Copy to clipboard",
+	exportCopied: "Settings copied to the clipboard",
+	exportSave: "Save to file",
+	exportSaved: (path: string) => `Settings saved to ${path}`,
+	exportFailed: (error: string) => `Export failed: ${error}`,
+	importHeading: "Import settings",
+	importDesc: "Merge keeps settings the export does not include; replace resets them to defaults",
+	importMerge: "Merge",
+	importReplace: "Replace",
+	importClipboard: "From clipboard",
+	importFile: "From file",
+	importFailed: (error: string) => `Import failed: ${error}`,
+	importDone: "Settings imported",
+	personaFolder: "Persona notes folder",
+	personaFolderDesc: (n: number) => `Notes in this folder are listed as guides (frontmatter: name, icon, firstPerson, speechStyle, tone; the body is the prompt). ${n} found`,
+	personaFolderEmpty: "Set a folder first",
+	personaNoteNew: "New persona note",
+	personaNoteNewName: "New persona",
+	personaNoteNewFailed: "Could not create the persona note",
+	personaNoteTag: "note",
+	personaNoteMissing: "not found, using the default guide",
+	personaNoteOpen: "This guide is edited in its note",
+	personaNoteOpenBtn: "Open note",
+	guideStartFrom: "Start from preset",
+	guideStartFromDesc: "Copy a preset's fields and detailed rules to edit (replaces the current custom persona)",
+	guideStartFromBtn: "Copy",
+	guideStartFromDone: (name: string) => `Copied the rules of ${name}`,
+	guideIntro: "Introduction",
+	guideIntroDesc: "Opening of the prompt. Built from the name and tone description when empty",
+	guideToneRules: "Tone rules",
+	guideOnePerLine: "One per line",
+	guideDeepening: "Deepening questions",
+	guideDeepeningDesc: "How the guide asks questions that dig deeper into the story",
+	guideGoodExamples: "Good examples",
+	guideForbidden: "Forbidden examples",
+	guideForbiddenDesc: "Phrases and examples the guide must avoid. One per line",
+	guidePromptPreview: "Show the prompt sent to the AI",
+	auditionHeading: "Audition the guides",
+	auditionSnippetName: "Story snippet",
+	auditionDesc: "Every guide replies to the same snippet using the current provider and model. Replies are reused until the provider, model or guide changes. Sends one request per guide",
+	auditionSnippet: "Every night the lighthouse keeper's daughter reads a letter aloud to the sea. No reply has ever come \u2014 until last night.",
+	auditionRun: "Audition",
+	auditionRunning: "Waiting for a reply\u2026",
+	auditionLatency: (ms: number) => `${ms} ms`,
+	auditionInstruction: "Respond in character to the user's story idea in two or three sentences, ending with one question.",
+	keysPlaintextNotice: "Muse Weaver AI Bridge: API keys are stored in plain text in data.json. Set a passphrase under API key encryption in the settings tab, or load the keys from environment variables or files.",
+	keysPlaintextLockedNotice: "Muse Weaver AI Bridge: some API keys are still stored in plain text. Unlock with your passphrase in the settings tab to encrypt them.",
 };
 
 export const t = lang === "ja" ? ja : en;
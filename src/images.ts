@@ -0,0 +1,104 @@
+import { type App, arrayBufferToBase64 } from "obsidian";
+import type { AiImage, AiImageInput } from "./types";
+
+// ============================================================
+// Image attachments
+// Vault paths and raw buffers are turned into base64 + MIME type
+// before dispatch. Oversized images are downscaled to a size every
+// provider accepts (Anthropic is the strictest: ~5 MB base64,
+// 1568 px on the long edge before it resizes server-side).
+// ============================================================
+
+/** Longest edge, in pixels, sent to a provider */
+const MAX_IMAGE_EDGE = 1568;
+
+/** Largest raw image size; base64 adds a third on top */
+const MAX_IMAGE_BYTES = 3_750_000;
+
+const JPEG_QUALITY = 0.85;
+
+const MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+const SUPPORTED_MIME_TYPES = Object.values(MIME_TYPES);
+
+/**
+ * Load, validate and (if needed) downscale request images.
+ * Throws with a readable message for missing files or unsupported formats.
+ */
+export async function resolveImages(app: App, inputs: AiImageInput[]): Promise<AiImage[]> {
+	const images: AiImage[] = [];
+	for (const input of inputs) {
+		const { buffer, mimeType, label } = await loadImage(app, input);
+		if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+			throw new Error(`Unsupported image type for ${label}: ${mimeType}`);
+		}
+		const fitted = await fitImage(buffer, mimeType);
+		images.push({ data: arrayBufferToBase64(fitted.buffer), mimeType: fitted.mimeType });
+	}
+	return images;
+}
+
+async function loadImage(app: App, input: AiImageInput): Promise<{ buffer: ArrayBuffer; mimeType: string; label: string }> {
+	if ("path" in input) {
+		const file = app.vault.getFileByPath(input.path);
+		if (!file) throw new Error(`Image not found in vault: ${input.path}`);
+		const mimeType = MIME_TYPES[file.extension.toLowerCase()];
+		if (!mimeType) throw new Error(`Unsupported image type: ${input.path}`);
+		return { buffer: await app.vault.readBinary(file), mimeType, label: input.path };
+	}
+	const buffer = typeof input.data === "string" ? base64ToArrayBuffer(input.data) : input.data;
+	return { buffer, mimeType: input.mimeType.toLowerCase(), label: "attached image" };
+}
+
+function base64ToArrayBuffer(data: string): ArrayBuffer {
+	const binary = atob(data.replace(/^data:[^,]*,/, ""));
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes.buffer;
+}
+
+/**
+ * Return the image unchanged when it is within limits, otherwise
+ * re-encode it as JPEG, shrinking until it fits MAX_IMAGE_BYTES.
+ */
+async function fitImage(buffer: ArrayBuffer, mimeType: string): Promise<{ buffer: ArrayBuffer; mimeType: string }> {
+	const bitmap = await createImageBitmap(new Blob([buffer], { type: mimeType }));
+	try {
+		const longEdge = Math.max(bitmap.width, bitmap.height);
+		if (longEdge <= MAX_IMAGE_EDGE && buffer.byteLength <= MAX_IMAGE_BYTES) {
+			return { buffer, mimeType };
+		}
+
+		let scale = Math.min(1, MAX_IMAGE_EDGE / longEdge);
+		for (let pass = 0; pass < 4; pass++) {
+			const encoded = await encodeJpeg(bitmap, scale);
+			if (encoded.byteLength <= MAX_IMAGE_BYTES) return { buffer: encoded, mimeType: "image/jpeg" };
+			scale *= Math.sqrt(MAX_IMAGE_BYTES / encoded.byteLength) * 0.9;
+		}
+		throw new Error("Image is too large to send, even after downscaling");
+	} finally {
+		bitmap.close();
+	}
+}
+
+async function encodeJpeg(bitmap: ImageBitmap, scale: number): Promise<ArrayBuffer> {
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+	canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+	const ctx = canvas.getContext("2d");
+	if (!ctx) throw new Error("Canvas is not available for image downscaling");
+	// JPEG has no alpha: paint transparent areas white rather than black
+	ctx.fillStyle = "#fff";
+	ctx.fillRect(0, 0, canvas.width, canvas.height);
+	ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+	const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+	if (!blob) throw new Error("Failed to encode downscaled image");
+	return blob.arrayBuffer();
+}
@@ -0,0 +1,100 @@
+import type { JsonSchema } from "./types";
+
+// ============================================================
+// Minimal JSON Schema support for structured output
+// Covers the subset providers accept for response schemas:
+// type, properties, required, additionalProperties, items,
+// enum, minItems / maxItems, minimum / maximum.
+// ============================================================
+
+/**
+ * Parse a model reply as JSON, tolerating a surrounding ```json fence
+ * or prose before / after the outermost object or array.
+ * Returns undefined when no JSON can be recovered.
+ */
+export function parseJsonReply(text: string): unknown {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const candidate = (fenced ? fenced[1] : text).trim();
+	try {
+		return JSON.parse(candidate);
+	} catch {
+		// Fall back to the outermost {...} or [...]
+	}
+	const start = candidate.search(/[[{]/);
+	const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+	if (start < 0 || end <= start) return undefined;
+	try {
+		return JSON.parse(candidate.slice(start, end + 1));
+	} catch {
+		return undefined;
+	}
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number" && Number.isInteger(value)) return "integer";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = typeOf(value);
+	if (type === "number") return actual === "number" || actual === "integer";
+	return actual === type;
+}
+
+/**
+ * Validate a value against a schema.
+ * Returns human-readable problems (empty when valid), with JSON paths
+ * so they can be fed back to the model in a repair request.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+	const errors: string[] = [];
+
+	if (schema.type) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((t) => matchesType(value, t))) {
+			errors.push(`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`);
+			return errors;
+		}
+	}
+
+	if (schema.enum && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			const items = schema.items;
+			value.forEach((item, i) => errors.push(...validateJson(item, items, `${path}[${i}]`)));
+		}
+	}
+
+	if (typeOf(value) === "object") {
+		const obj = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+		}
+		const props = schema.properties ?? {};
+		for (const [key, child] of Object.entries(obj)) {
+			if (props[key]) {
+				errors.push(...validateJson(child, props[key], `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${key}"`);
+			}
+		}
+	}
+
+	return errors;
+}
@@ -0,0 +1,66 @@
+import { Platform } from "obsidian";
+import type { KeySource, ProviderConfig } from "./types";
+
+// ============================================================
+// External API keys
+// A provider's key can be read from an environment variable or a
+// file outside the vault instead of data.json. Both need Node, so
+// on mobile the stored key is used instead.
+// ============================================================
+
+/**
+ * "ok" = read from the external source; "missing" = variable unset,
+ * file empty or unreadable; "unavailable" = not the desktop app.
+ * In the last two cases the stored key is used.
+ */
+export type KeyStatus = "ok" | "missing" | "unavailable";
+
+export interface KeyResolution {
+	key: string;
+	/** The configured source */
+	source: KeySource;
+	status: KeyStatus;
+	/** Why an external source did not resolve (never contains the key) */
+	detail?: string;
+}
+
+/**
+ * Load a Node built-in through Electron's `window.require`. Desktop
+ * only: a top-level import would stop the plugin loading on mobile.
+ */
+function nodeModule<T>(name: "fs" | "os"): T {
+	return (window as unknown as { require: (id: string) => T }).require(name);
+}
+
+/** Expand a leading ~ to the home directory */
+function expandHome(path: string): string {
+	if (!path.startsWith("~")) return path;
+	return nodeModule<typeof import("os")>("os").homedir() + path.slice(1);
+}
+
+function readExternal(source: "env" | "file", ref: string): { key: string; detail?: string } {
+	if (!ref) return { key: "", detail: "not configured" };
+	if (source === "env") {
+		const value = process.env[ref]?.trim() ?? "";
+		return value ? { key: value } : { key: "", detail: `${ref} is not set` };
+	}
+	try {
+		const fs = nodeModule<typeof import("fs")>("fs");
+		const value = fs.readFileSync(expandHome(ref), "utf8").trim();
+		return value ? { key: value } : { key: "", detail: "file is empty" };
+	} catch (e: unknown) {
+		const code = (e as { code?: string }).code;
+		return { key: "", detail: code === "ENOENT" ? "file not found" : code ?? "cannot read file" };
+	}
+}
+
+/** The key to use for a provider, and where it came from */
+export function resolveApiKey(config: ProviderConfig | undefined): KeyResolution {
+	const stored = config?.apiKey || "";
+	const source = config?.keySource ?? "stored";
+	if (source === "stored") return { key: stored, source, status: "ok" };
+	if (!Platform.isDesktopApp) return { key: stored, source, status: "unavailable" };
+
+	const { key, detail } = readExternal(source, config?.keyRef?.trim() ?? "");
+	return key ? { key, source, status: "ok" } : { key: stored, source, status: "missing", detail };
+}
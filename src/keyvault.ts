@@ -0,0 +1,73 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "obsidian";
+import type { AiProvider, AiSettings, KeyVault } from "./types";
+
+// ============================================================
+// Encrypted API keys
+// Keys are encrypted with AES-GCM under a key derived from the
+// user's passphrase (PBKDF2-SHA256), so a synced data.json holds
+// only ciphertext. The derived key lives in memory until the
+// plugin unloads or the user locks the vault.
+// ============================================================
+
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_VALUE = "muse-weaver-ai-bridge";
+
+async function deriveKey(passphrase: string, salt: ArrayBuffer): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+	return crypto.subtle.deriveKey(
+		{ name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+export async function encryptSecret(key: CryptoKey, text: string): Promise<string> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text));
+	return `${arrayBufferToBase64(iv.buffer)}.${arrayBufferToBase64(data)}`;
+}
+
+/** Throws when the key is wrong or the data was tampered with */
+export async function decryptSecret(key: CryptoKey, stored: string): Promise<string> {
+	const [iv, data] = stored.split(".");
+	const plain = await crypto.subtle.decrypt(
+		{ name: "AES-GCM", iv: new Uint8Array(base64ToArrayBuffer(iv)) },
+		key,
+		base64ToArrayBuffer(data),
+	);
+	return new TextDecoder().decode(plain);
+}
+
+/** A new, empty vault for this passphrase, and its key */
+export async function createKeyVault(passphrase: string): Promise<{ vault: KeyVault; key: CryptoKey }> {
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const key = await deriveKey(passphrase, salt.buffer);
+	const vault: KeyVault = {
+		salt: arrayBufferToBase64(salt.buffer),
+		check: await encryptSecret(key, CHECK_VALUE),
+		keys: {},
+	};
+	return { vault, key };
+}
+
+/**
+ * Providers whose API key is held in plain text. Read right after
+ * loading, these are the keys data.json stores unencrypted.
+ */
+export function plaintextKeyProviders(settings: AiSettings): AiProvider[] {
+	return (Object.entries(settings.providers) as [AiProvider, { apiKey?: string }][])
+		.filter(([, config]) => Boolean(config?.apiKey))
+		.map(([id]) => id);
+}
+
+/** The vault's key, or undefined when the passphrase is wrong */
+export async function unlockKeyVault(vault: KeyVault, passphrase: string): Promise<CryptoKey | undefined> {
+	const key = await deriveKey(passphrase, base64ToArrayBuffer(vault.salt));
+	try {
+		return (await decryptSecret(key, vault.check)) === CHECK_VALUE ? key : undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -1,24 +1,86 @@
-import { Plugin } from "obsidian";
+import { type Component, Notice, Plugin, TFile } from "obsidian";
 import {
 	DEFAULT_AI_SETTINGS,
 	type AiSettings,
 	type AiRequest,
 	type AiResult,
+	type AiStreamChunk,
+	type AiErrorCode,
 	type MusePersona,
 	PROVIDERS,
 	migrateSettings,
+	type AiRoute,
+	type AiProvider,
+	type ProviderConfig,
 	getApiKey,
+	getContextWindow,
+	applyTaskRoute,
+	resolveTaskRoute,
 } from "./types";
-import { callAi } from "./ai-client";
+import { callAi, linkAbortSignal } from "./ai-client";
+import { AiSession, type AiSessionOptions } from "./session";
+import { getErrorHint } from "./errors";
+import { resolveImages } from "./images";
+import { UsageLedger } from "./usage";
+import { ResponseCache, cacheKeyFor } from "./cache";
+import { AuditLog } from "./audit";
+import { FixtureStore } from "./mock";
+import { createKeyVault, decryptSecret, encryptSecret, plaintextKeyProviders, unlockKeyVault } from "./keyvault";
+import { RequestScheduler } from "./scheduler";
+import { type AiMiddleware, MiddlewareChain } from "./middleware";
+import { type BudgetMeter, applyBudget, budgetMeters, crossedThresholds, describeBreach, formatMeterValue, meterLabel } from "./budget";
+import { t } from "./i18n";
 import { MwabSettingTab } from "./settings";
 import { resolvePersona, buildPersonaPrompt } from "./persona";
+import { PersonaLibrary, notePersonaId } from "./persona-library";
+import { PersonaAudition } from "./audition";
 
 export default class MuseWeaverAiBridgePlugin extends Plugin {
 	settings: AiSettings = DEFAULT_AI_SETTINGS;
+	/** Token usage per day / provider / model / consumer, kept beside data.json */
+	usage = new UsageLedger(this.app.vault.adapter, `${this.manifest.dir}/usage.json`);
+	/** Opt-in cache of successful replies, kept beside data.json */
+	cache = new ResponseCache(this.app.vault.adapter, `${this.manifest.dir}/cache.json`);
+
+	/** Personas kept as notes in the vault's persona folder */
+	personas = new PersonaLibrary(this.app, () => this.settings.persona.folder);
+
+	/** Sample replies per persona for the settings audition panel, kept for the session */
+	audition = new PersonaAudition((req) => this.callAi(req));
+
+	/** Opt-in request / response log in the vault */
+	private audit = new AuditLog(this.app.vault.adapter);
+
+	/** Recorded replies for the mock provider's replay mode */
+	private fixtures = new FixtureStore(this.app.vault.adapter);
+
+	/** Queues provider calls under the user's concurrency and rate limits */
+	private scheduler = new RequestScheduler(() => this.settings.scheduler);
+
+	/** Hooks registered by other plugins, run around every request */
+	private middleware = new MiddlewareChain();
+
+	/** Controllers of requests still running, aborted on unload */
+	private inFlight = new Set<AbortController>();
+
+	/** Derived from the passphrase on unlock; never persisted */
+	private vaultKey: CryptoKey | undefined;
+	/** Saves are chained: encryption is async and must not reorder writes */
+	private saving: Promise<void> = Promise.resolve();
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
+		await this.usage.load();
+		await this.cache.load();
 		this.addSettingTab(new MwabSettingTab(this.app, this));
+		this.watchPersonaNotes();
+		this.promptToSealKeys();
+	}
+
+	onunload(): void {
+		this.inFlight.forEach((controller) => controller.abort());
+		this.inFlight.clear();
+		this.middleware.clear();
 	}
 
 	// ============================================================
@@ -31,7 +93,41 @@ export default class MuseWeaverAiBridgePlugin extends Plugin {
 	 *   app.plugins.plugins["muse-weaver-ai-bridge"].callAi(req)
 	 */
 	async callAi(req: AiRequest): Promise<AiResult> {
-		return callAi(this.settings, req);
+		return this.run(req);
+	}
+
+	/**
+	 * Send a request and receive the reply token-by-token.
+	 * `onChunk` gets each text delta as it arrives, then a final chunk
+	 * with the complete result. The returned promise resolves to the same result.
+	 */
+	async streamAi(req: AiRequest, onChunk: (chunk: AiStreamChunk) => void): Promise<AiResult> {
+		return this.run(req, onChunk);
+	}
+
+	/**
+	 * Start a multi-turn conversation. The session keeps the dialogue
+	 * history and summarizes older turns when it nears the context window.
+	 */
+	createSession(options: AiSessionOptions): AiSession {
+		return new AiSession(
+			{
+				call: (req, onChunk) => this.run(req, onChunk),
+				contextWindow: () => getContextWindow(this.settings, options.task),
+			},
+			options,
+		);
+	}
+
+	/**
+	 * Register hooks that run around every request sent through the bridge.
+	 * Pass your plugin as `owner`: the middleware is removed when it unloads.
+	 * Returns a function that removes it earlier.
+	 */
+	registerMiddleware(middleware: AiMiddleware, owner: Component): () => void {
+		const remove = this.middleware.add(middleware);
+		owner.register(remove);
+		return remove;
 	}
 
 	/**
@@ -42,9 +138,26 @@ export default class MuseWeaverAiBridgePlugin extends Plugin {
 		const provider = PROVIDERS.find((p) => p.id === this.settings.provider);
 		if (!provider) return false;
 		if (provider.needsApiKey && !getApiKey(this.settings)) return false;
+		if (provider.id === "openai-compatible" && !this.settings.providers[provider.id]?.baseUrl) return false;
 		return true;
 	}
 
+	/**
+	 * Get the provider + model a request with this task tag is sent to
+	 * first (the main provider when the tag is not routed).
+	 */
+	getRoute(task?: string): AiRoute {
+		return resolveTaskRoute(this.settings, task);
+	}
+
+	/**
+	 * Get the names of the user's generation parameter presets,
+	 * usable as `AiRequest.preset`.
+	 */
+	getParamPresets(): string[] {
+		return this.settings.paramPresets.map((p) => p.name).filter((name) => name);
+	}
+
 	/**
 	 * Get the display name of the current provider.
 	 */
@@ -52,11 +165,19 @@ export default class MuseWeaverAiBridgePlugin extends Plugin {
 		return PROVIDERS.find((p) => p.id === this.settings.provider)?.name || "Unknown";
 	}
 
+	/**
+	 * Get localized remediation advice for a failed result's `errorCode`.
+	 * Returns an empty string when there is nothing actionable to suggest.
+	 */
+	getErrorHint(code: AiErrorCode | undefined): string {
+		return getErrorHint(code);
+	}
+
 	/**
 	 * Get the currently active Muse persona.
 	 */
 	getPersona(): MusePersona {
-		return resolvePersona(this.settings.persona);
+		return resolvePersona(this.settings.persona, this.personas);
 	}
 
 	/**
@@ -67,6 +188,233 @@ export default class MuseWeaverAiBridgePlugin extends Plugin {
 		return buildPersonaPrompt(this.getPersona());
 	}
 
+	/**
+	 * Run a request through the middleware under a plugin-owned
+	 * AbortController so that both the consumer's signal and plugin
+	 * unload can cancel it.
+	 */
+	private async run(req: AiRequest, onChunk?: (chunk: AiStreamChunk) => void): Promise<AiResult> {
+		const controller = new AbortController();
+		const unlink = linkAbortSignal(req.signal, controller);
+		this.inFlight.add(controller);
+		// The final chunk is held back until after-hooks have amended the result
+		const deltas = onChunk && ((chunk: AiStreamChunk) => {
+			if (!chunk.done) onChunk(chunk);
+		});
+		let result: AiResult;
+		try {
+			result = await this.middleware.run(
+				{ ...req, signal: controller.signal },
+				async (request) => {
+					const started = Date.now();
+					const dispatched = await this.dispatch({ ...request, signal: controller.signal }, deltas);
+					// Logged as sent: after before-hooks, before after-hooks
+					this.audit.record(this.settings, request, dispatched, Date.now() - started);
+					return dispatched;
+				},
+			);
+		} finally {
+			this.inFlight.delete(controller);
+			unlink();
+		}
+		onChunk?.({ done: true, result });
+		return result;
+	}
+
+	/** Serve a request from the cache or send it to a provider within budget */
+	private async dispatch(req: AiRequest, onChunk?: (chunk: AiStreamChunk) => void): Promise<AiResult> {
+		try {
+			const images = req.images?.length ? await resolveImages(this.app, req.images) : undefined;
+			const prepared: AiRequest = { ...req, images };
+			// Resolve the task tag once; cache keys, budgets and dispatch then see one route
+			const settings = applyTaskRoute(this.settings, req.task);
+
+			// Cache hits are free, so they are served even when over budget
+			const cacheKey = await cacheKeyFor(settings, prepared);
+			if (cacheKey && req.cache !== "refresh") {
+				const hit = this.cache.get(cacheKey, settings.cache);
+				if (hit) {
+					onChunk?.({ done: false, text: hit.text });
+					return hit;
+				}
+			}
+
+			const meters = budgetMeters(settings, this.usage);
+			const decision = applyBudget(settings, meters, req.fallback !== false);
+			if (!decision.ok) {
+				return this.refuse(describeBreach(decision.breach), "budget_exceeded");
+			}
+			if (this.keysLocked && !getApiKey(decision.settings) && PROVIDERS.find((p) => p.id === decision.settings.provider)?.needsApiKey) {
+				return this.refuse("API keys are locked. Unlock them in the Muse Weaver AI Bridge settings.", "auth");
+			}
+
+			const result = await callAi(decision.settings, prepared, onChunk, {
+				scheduler: this.scheduler,
+				fixtures: this.fixtures,
+			});
+			if (result.provider && result.model && (result.ok || result.usage)) {
+				this.usage.record(result.provider, result.model, req.consumer, result.usage);
+				this.warnBudgets(meters);
+			}
+			if (cacheKey && result.ok) {
+				this.cache.set(cacheKey, result, settings.cache);
+			}
+			return result;
+		} catch (e: unknown) {
+			// Image loading and key hashing throw; callAi reports failures as results
+			return this.refuse(e instanceof Error ? e.message : String(e), "bad_request");
+		}
+	}
+
+	/** Fail a request before it reaches a provider */
+	private refuse(error: string, errorCode: AiErrorCode): AiResult {
+		return { ok: false, text: "", error, errorCode };
+	}
+
+	/** Show a Notice for each budget warning threshold the last request crossed */
+	private warnBudgets(before: BudgetMeter[]): void {
+		const after = budgetMeters(this.settings, this.usage);
+		for (const { meter, threshold } of crossedThresholds(before, after, this.settings.budget.warnThresholds)) {
+			new Notice(t.budgetWarning(
+				meterLabel(meter),
+				threshold,
+				formatMeterValue(meter.metric, meter.used),
+				formatMeterValue(meter.metric, meter.limit),
+			));
+		}
+	}
+
+	// ============================================================
+	// API key encryption
+	// ============================================================
+
+	/** True while encrypted keys are waiting for the passphrase */
+	get keysLocked(): boolean {
+		return Boolean(this.settings.keyVault) && !this.vaultKey;
+	}
+
+	/**
+	 * Tell the user on load about keys data.json holds in plain text:
+	 * every time while a vault is locked (they are encrypted on unlock),
+	 * once when no passphrase was ever set.
+	 */
+	private promptToSealKeys(): void {
+		const plaintext = plaintextKeyProviders(this.settings).length > 0;
+		if (this.keysLocked) {
+			new Notice(plaintext ? t.keysPlaintextLockedNotice : t.keysLockedNotice);
+		} else if (plaintext && !this.settings.keyVault && !this.settings.keySealPrompted) {
+			new Notice(t.keysPlaintextNotice, 15000);
+			this.settings.keySealPrompted = true;
+			void this.saveSettings();
+		}
+	}
+
+	/** Decrypt the stored keys into memory. Returns false for a wrong passphrase. */
+	async unlockKeys(passphrase: string): Promise<boolean> {
+		const vault = this.settings.keyVault;
+		if (!vault) return true;
+		const key = await unlockKeyVault(vault, passphrase);
+		if (!key) return false;
+
+		for (const [id, stored] of Object.entries(vault.keys) as [AiProvider, string][]) {
+			const config = this.settings.providers[id] ?? { apiKey: "", model: "" };
+			this.settings.providers[id] = config;
+			// A plaintext key from an older version is newer than the stored one
+			if (config.apiKey) continue;
+			try {
+				config.apiKey = await decryptSecret(key, stored);
+			} catch (e: unknown) {
+				console.warn(`[MWAB] failed to decrypt the ${id} API key:`, e);
+			}
+		}
+		this.vaultKey = key;
+		// Encrypts any plaintext keys left by older versions
+		await this.saveSettings();
+		return true;
+	}
+
+	/** Forget the decrypted keys until the next unlock */
+	async lockKeys(): Promise<void> {
+		if (!this.settings.keyVault) return;
+		// Let pending saves encrypt the keys before they are dropped
+		await this.saving;
+		const vault = this.settings.keyVault;
+		this.vaultKey = undefined;
+		for (const [id, config] of Object.entries(this.settings.providers)) {
+			if (vault.keys[id as AiProvider]) config.apiKey = "";
+		}
+	}
+
+	/**
+	 * Encrypt the keys under a new passphrase. Used both to turn
+	 * encryption on and to change the passphrase (keys must be unlocked).
+	 */
+	async setPassphrase(passphrase: string): Promise<void> {
+		if (this.keysLocked) throw new Error("Unlock the API keys before changing the passphrase");
+		const { vault, key } = await createKeyVault(passphrase);
+		this.settings.keyVault = vault;
+		this.vaultKey = key;
+		await this.saveSettings();
+	}
+
+	/** Restore the defaults; the vault goes with them, so its key is dropped too */
+	async resetSettings(): Promise<void> {
+		await this.saving;
+		this.vaultKey = undefined;
+		this.settings = JSON.parse(JSON.stringify(DEFAULT_AI_SETTINGS));
+		await this.saveSettings();
+		await this.personas.reload();
+	}
+
+	/** The settings as written to disk: with a vault, keys are replaced by ciphertext */
+	private async sealSettings(): Promise<AiSettings> {
+		const vault = this.settings.keyVault;
+		if (!vault) return this.settings;
+
+		const providers: AiSettings["providers"] = {};
+		const keys = { ...vault.keys };
+		for (const [id, config] of Object.entries(this.settings.providers) as [AiProvider, ProviderConfig][]) {
+			if (this.vaultKey) {
+				if (config.apiKey) keys[id] = await encryptSecret(this.vaultKey, config.apiKey);
+				else delete keys[id];
+				providers[id] = { ...config, apiKey: "" };
+			} else {
+				// Locked: stored ciphertext stays, and a plaintext key from an
+				// older version is kept as is until it can be encrypted
+				providers[id] = { ...config };
+			}
+		}
+		// Ciphertext is safe to keep in memory, and a later locked save needs it
+		this.settings.keyVault = { ...vault, keys };
+		return { ...this.settings, providers };
+	}
+
+	// ============================================================
+	// Persona notes
+	// The library is indexed once the vault is loaded and then kept
+	// current from metadata and file events. A selected note that is
+	// renamed stays selected.
+	// ============================================================
+
+	private watchPersonaNotes(): void {
+		this.app.workspace.onLayoutReady(() => void this.personas.reload());
+		this.registerEvent(this.app.metadataCache.on("changed", (file, data, cache) => {
+			this.personas.update(file, data, cache);
+		}));
+		this.registerEvent(this.app.vault.on("delete", (file) => {
+			this.personas.remove(file.path);
+		}));
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			if (!(file instanceof TFile)) return;
+			void this.personas.rename(file, oldPath);
+			const persona = this.settings.persona;
+			if (persona.selected === notePersonaId(oldPath) && this.personas.contains(file.path)) {
+				persona.selected = notePersonaId(file.path);
+				void this.saveSettings();
+			}
+		}));
+	}
+
 	// ============================================================
 	// Settings persistence
 	// ============================================================
@@ -79,6 +427,9 @@ export default class MuseWeaverAiBridgePlugin extends Plugin {
 	}
 
 	async saveSettings(): Promise<void> {
-		await this.saveData(this.settings);
+		const next = this.saving.then(async () => this.saveData(await this.sealSettings()));
+		// Keep the chain alive after a failed write; the caller still sees the error
+		this.saving = next.catch(() => undefined);
+		await next;
 	}
 }
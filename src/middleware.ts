@@ -0,0 +1,107 @@
+import type { AiRequest, AiResult } from "./types";
+
+// ============================================================
+// Middleware
+// Other plugins hook into every request. Before hooks may rewrite
+// the request or answer it themselves; after hooks may rewrite the
+// result. Hooks run in ascending `order`, then registration order,
+// and after hooks unwind in reverse so each middleware wraps the
+// ones registered after it.
+// ============================================================
+
+/**
+ * Return a new request to rewrite it, an AiResult to answer without
+ * calling the provider, or nothing to pass the request on unchanged.
+ */
+export type BeforeRequestHook = (req: AiRequest) => AiRequest | AiResult | void | Promise<AiRequest | AiResult | void>;
+
+/** Return a new result to replace it, or nothing to keep it */
+export type AfterResponseHook = (result: AiResult, req: AiRequest) => AiResult | void | Promise<AiResult | void>;
+
+export interface AiMiddleware {
+	/** Shown in error messages */
+	name: string;
+	/** Lower runs first (default 0); equal values keep registration order */
+	order?: number;
+	before?: BeforeRequestHook;
+	after?: AfterResponseHook;
+}
+
+interface Entry {
+	middleware: AiMiddleware;
+	seq: number;
+}
+
+function isResult(value: AiRequest | AiResult): value is AiResult {
+	return "ok" in value;
+}
+
+function hookFailure(middleware: AiMiddleware, e: unknown): AiResult {
+	const message = e instanceof Error ? e.message : String(e);
+	return { ok: false, text: "", error: `Middleware "${middleware.name}" failed: ${message}`, errorCode: "bad_request" };
+}
+
+export class MiddlewareChain {
+	private entries: Entry[] = [];
+	private seq = 0;
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	/** Add middleware; returns a function that removes it */
+	add(middleware: AiMiddleware): () => void {
+		const entry: Entry = { middleware, seq: this.seq++ };
+		this.entries = [...this.entries, entry].sort((a, b) =>
+			(a.middleware.order ?? 0) - (b.middleware.order ?? 0) || a.seq - b.seq);
+		return () => {
+			this.entries = this.entries.filter((e) => e !== entry);
+		};
+	}
+
+	clear(): void {
+		this.entries = [];
+	}
+
+	/**
+	 * Pass `req` through the before hooks, then `next`, then the after hooks.
+	 * When a before hook answers, `next` and the before hooks after it are
+	 * skipped; the after hooks of the middleware already entered still run.
+	 * A throwing hook ends the request with a `bad_request` failure naming
+	 * the middleware; no further hooks run.
+	 */
+	async run(req: AiRequest, next: (req: AiRequest) => Promise<AiResult>): Promise<AiResult> {
+		// Snapshot, so (un)registering during a request does not affect it
+		const chain = this.entries.map((e) => e.middleware);
+		let request = req;
+		let result: AiResult | undefined;
+		let entered = 0;
+
+		for (const middleware of chain) {
+			entered++;
+			let out: AiRequest | AiResult | void;
+			try {
+				out = await middleware.before?.(request);
+			} catch (e: unknown) {
+				return hookFailure(middleware, e);
+			}
+			if (!out) continue;
+			if (isResult(out)) {
+				result = out;
+				break;
+			}
+			request = out;
+		}
+
+		result ??= await next(request);
+
+		for (const middleware of chain.slice(0, entered).reverse()) {
+			try {
+				result = (await middleware.after?.(result, request)) || result;
+			} catch (e: unknown) {
+				return hookFailure(middleware, e);
+			}
+		}
+		return result;
+	}
+}
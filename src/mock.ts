@@ -0,0 +1,102 @@
+import { type DataAdapter, normalizePath } from "obsidian";
+import type { AiRequest, AiToolCall, AiUsage, MockRule } from "./types";
+import type { ToolExchange } from "./tools";
+import { sha256 } from "./cache";
+
+// ============================================================
+// Mock provider
+// Lets consumer plugins be developed offline. Script mode answers
+// from regex rules; record mode saves real replies to a fixture file
+// in the vault, and replay mode serves them back by request hash so
+// the same flow always gets the same answers.
+// ============================================================
+
+/** A recorded provider reply */
+export interface FixtureEntry {
+	recordedAt: string;
+	/** Where the reply came from, for reading the file */
+	provider: string;
+	model: string;
+	message: string;
+	text: string;
+	toolCalls?: AiToolCall[];
+	usage?: AiUsage;
+}
+
+interface FixtureFile {
+	version: 1;
+	entries: Record<string, FixtureEntry>;
+}
+
+/** The reply of the first rule matching the prompt, with $1-$9 filled in */
+export function matchMockRule(rules: MockRule[], req: AiRequest): string | undefined {
+	const prompt = `${req.system}\n\n${req.message}`;
+	for (const rule of rules) {
+		let pattern: RegExp;
+		try {
+			pattern = new RegExp(rule.pattern);
+		} catch {
+			console.warn(`[MWAB] invalid mock rule pattern: ${rule.pattern}`);
+			continue;
+		}
+		const match = pattern.exec(prompt);
+		if (match) return rule.response.replace(/\$(\d)/g, (_, n: string) => match[Number(n)] ?? "");
+	}
+	return undefined;
+}
+
+/**
+ * Fixture key for one provider call. Tool call IDs are left out
+ * because providers and the tool loop generate them afresh each run.
+ */
+export function fixtureKey(req: AiRequest & { toolExchanges?: ToolExchange[] }): Promise<string> {
+	return sha256(JSON.stringify({
+		system: req.system,
+		message: req.message,
+		history: req.history ?? [],
+		images: req.images ?? [],
+		responseFormat: req.responseFormat,
+		tools: (req.tools ?? []).map((t) => ({ name: t.name, description: t.description, parameters: t.parameters })),
+		toolExchanges: (req.toolExchanges ?? []).map((ex) => ({
+			text: ex.text,
+			calls: ex.calls.map((c) => ({ name: c.name, arguments: c.arguments })),
+			results: ex.results.map((r) => ({ name: r.name, content: r.content, isError: r.isError })),
+		})),
+	}));
+}
+
+export class FixtureStore {
+	private adapter: DataAdapter;
+	/** Writes are chained so concurrent recordings do not overwrite each other */
+	private writing: Promise<void> = Promise.resolve();
+
+	constructor(adapter: DataAdapter) {
+		this.adapter = adapter;
+	}
+
+	/** Read from disk each time, so hand edits to the file apply immediately */
+	async find(path: string, key: string): Promise<FixtureEntry | undefined> {
+		return (await this.read(path)).entries[key];
+	}
+
+	record(path: string, key: string, entry: FixtureEntry): Promise<void> {
+		this.writing = this.writing
+			.then(async () => {
+				const file = await this.read(path);
+				file.entries[key] = entry;
+				const normalized = normalizePath(path);
+				const folder = normalized.split("/").slice(0, -1).join("/");
+				if (folder && !(await this.adapter.exists(folder))) await this.adapter.mkdir(folder);
+				await this.adapter.write(normalized, JSON.stringify(file, null, 2));
+			})
+			.catch((e: unknown) => console.warn("[MWAB] failed to save fixture:", e));
+		return this.writing;
+	}
+
+	private async read(path: string): Promise<FixtureFile> {
+		const normalized = normalizePath(path);
+		if (!(await this.adapter.exists(normalized))) return { version: 1, entries: {} };
+		const file = JSON.parse(await this.adapter.read(normalized)) as FixtureFile;
+		return { version: 1, entries: file.entries ?? {} };
+	}
+}
@@ -0,0 +1,87 @@
+import type { AiProvider, AiRequest, AiSettings, GenerationParams } from "./types";
+
+// ============================================================
+// Generation parameters
+// Requests may name a user-defined preset and override single
+// values. Each provider accepts a different subset; the rest are
+// dropped with a console warning rather than failing the request.
+// ============================================================
+
+export const PARAM_KEYS: (keyof GenerationParams)[] = [
+	"temperature",
+	"topP",
+	"topK",
+	"stop",
+	"presencePenalty",
+	"frequencyPenalty",
+	"seed",
+];
+
+const SUPPORTED_PARAMS: Record<AiProvider, (keyof GenerationParams)[]> = {
+	gemini: PARAM_KEYS,
+	openai: ["temperature", "topP", "stop", "presencePenalty", "frequencyPenalty", "seed"],
+	// Most local servers (vLLM, llama.cpp, LM Studio) also take top_k
+	"openai-compatible": PARAM_KEYS,
+	anthropic: ["temperature", "topP", "topK", "stop"],
+	ollama: PARAM_KEYS,
+	// Ignored, but accepted so offline runs do not warn
+	mock: PARAM_KEYS,
+};
+
+/** The request's parameters layered over its named preset (request values win) */
+export function resolveGenerationParams(settings: AiSettings, req: AiRequest): GenerationParams {
+	const preset = req.preset ? settings.paramPresets.find((p) => p.name === req.preset) : undefined;
+	if (req.preset && !preset) console.warn(`[MWAB] unknown parameter preset "${req.preset}"`);
+
+	const params: GenerationParams = {};
+	for (const key of PARAM_KEYS) {
+		const value = req[key] ?? preset?.[key];
+		if (value !== undefined) (params as Record<string, unknown>)[key] = value;
+	}
+	return params;
+}
+
+/** Keep only what the provider accepts, warning about the rest */
+export function paramsFor(provider: AiProvider, params: GenerationParams): GenerationParams {
+	const supported = SUPPORTED_PARAMS[provider];
+	const kept: GenerationParams = {};
+	const dropped: string[] = [];
+	for (const key of PARAM_KEYS) {
+		if (params[key] === undefined) continue;
+		if (supported.includes(key)) (kept as Record<string, unknown>)[key] = params[key];
+		else dropped.push(key);
+	}
+	if (dropped.length > 0) {
+		console.warn(`[MWAB] ${provider} does not support ${dropped.join(", ")}; ignored`);
+	}
+	return kept;
+}
+
+/**
+ * Parse "key: value" lines from the preset editor.
+ * `stop` takes comma-separated sequences; unknown keys and bad numbers are ignored.
+ */
+export function parseParamLines(text: string): GenerationParams {
+	const params: GenerationParams = {};
+	for (const line of text.split("\n")) {
+		const colon = line.indexOf(":");
+		if (colon <= 0) continue;
+		const key = line.slice(0, colon).trim() as keyof GenerationParams;
+		const raw = line.slice(colon + 1).trim();
+		if (!PARAM_KEYS.includes(key) || !raw) continue;
+		if (key === "stop") {
+			params.stop = raw.split(",").map((s) => s.trim()).filter((s) => s);
+		} else {
+			const n = Number(raw);
+			if (!isNaN(n)) params[key] = n;
+		}
+	}
+	return params;
+}
+
+export function formatParamLines(params: GenerationParams): string {
+	return PARAM_KEYS
+		.filter((key) => params[key] !== undefined)
+		.map((key) => `${key}: ${key === "stop" ? (params.stop ?? []).join(", ") : params[key]}`)
+		.join("\n");
+}
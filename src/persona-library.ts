@@ -0,0 +1,126 @@
+import { type App, type CachedMetadata, type TFile, normalizePath } from "obsidian";
+import type { MusePersona } from "./types";
+
+// ============================================================
+// Persona library
+// Personas kept as markdown notes in a vault folder. Frontmatter
+// holds the short display fields (name, icon, firstPerson,
+// speechStyle, tone); the note body is the full prompt, playing the
+// role DETAILED_RULES plays for presets. The index follows vault
+// events, so edits apply without reloading the plugin.
+// ============================================================
+
+/** Selection IDs of note personas are this prefix plus the note path */
+export const NOTE_PERSONA_PREFIX = "note:";
+
+export function notePersonaId(path: string): string {
+	return NOTE_PERSONA_PREFIX + path;
+}
+
+export function isNotePersonaId(id: string): boolean {
+	return id.startsWith(NOTE_PERSONA_PREFIX);
+}
+
+/** Starting content for a new persona note */
+export const PERSONA_NOTE_TEMPLATE = [
+	"---",
+	"name: ",
+	"icon: user",
+	"firstPerson: ",
+	"speechStyle: ",
+	"tone: ",
+	"---",
+	"",
+	"",
+].join("\n");
+
+function field(frontmatter: Record<string, unknown>, key: string, fallback = ""): string {
+	const value = frontmatter[key];
+	return typeof value === "string" || typeof value === "number" ? String(value).trim() || fallback : fallback;
+}
+
+/** Read a persona from a note's content and metadata */
+export function parsePersonaNote(file: TFile, content: string, cache: CachedMetadata | null): MusePersona {
+	const frontmatter = (cache?.frontmatter ?? {}) as Record<string, unknown>;
+	const bodyStart = cache?.frontmatterPosition?.end.offset ?? 0;
+	const body = content.slice(bodyStart).trim();
+	return {
+		id: notePersonaId(file.path),
+		name: field(frontmatter, "name", file.basename),
+		icon: field(frontmatter, "icon", "user"),
+		tone: field(frontmatter, "tone"),
+		firstPerson: field(frontmatter, "firstPerson"),
+		speechStyle: field(frontmatter, "speechStyle"),
+		prompt: body || undefined,
+	};
+}
+
+export class PersonaLibrary {
+	private app: App;
+	private folder: () => string;
+	private personas = new Map<string, MusePersona>();
+
+	constructor(app: App, folder: () => string) {
+		this.app = app;
+		this.folder = folder;
+	}
+
+	/** Whether a note at `path` belongs to the library (subfolders included) */
+	contains(path: string): boolean {
+		const folder = normalizePath(this.folder().trim());
+		if (!folder || folder === "/") return false;
+		return path.endsWith(".md") && path.startsWith(`${folder}/`);
+	}
+
+	/** Rebuild the index from the folder, e.g. after the folder setting changes */
+	async reload(): Promise<void> {
+		const files = this.app.vault.getMarkdownFiles().filter((f) => this.contains(f.path));
+		const next = new Map<string, MusePersona>();
+		for (const file of files) {
+			const content = await this.app.vault.cachedRead(file);
+			const persona = parsePersonaNote(file, content, this.app.metadataCache.getFileCache(file));
+			next.set(persona.id, persona);
+		}
+		this.personas = next;
+	}
+
+	/** Re-read one note after its metadata changed */
+	update(file: TFile, content: string, cache: CachedMetadata): void {
+		if (!this.contains(file.path)) return;
+		const persona = parsePersonaNote(file, content, cache);
+		this.personas.set(persona.id, persona);
+	}
+
+	remove(path: string): void {
+		this.personas.delete(notePersonaId(path));
+	}
+
+	/** Follow a rename or move; a note moved out of the folder drops out */
+	async rename(file: TFile, oldPath: string): Promise<void> {
+		this.remove(oldPath);
+		if (!this.contains(file.path)) return;
+		const content = await this.app.vault.cachedRead(file);
+		const persona = parsePersonaNote(file, content, this.app.metadataCache.getFileCache(file));
+		this.personas.set(persona.id, persona);
+	}
+
+	get(id: string): MusePersona | undefined {
+		return this.personas.get(id);
+	}
+
+	/** All note personas, sorted by name */
+	list(): MusePersona[] {
+		return [...this.personas.values()].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/** Create a note from the template with an unused name; returns it */
+	async create(baseName: string): Promise<TFile> {
+		const folder = normalizePath(this.folder().trim());
+		if (!this.app.vault.getAbstractFileByPath(folder)) await this.app.vault.createFolder(folder);
+		let path = `${folder}/${baseName}.md`;
+		for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+			path = `${folder}/${baseName} ${n}.md`;
+		}
+		return this.app.vault.create(path, PERSONA_NOTE_TEMPLATE);
+	}
+}
@@ -1,13 +1,17 @@
-import { type MusePersona, type MusePersonaSettings } from "./types";
+import { type MusePersona, type MusePersonaSettings, type PersonaRules } from "./types";
 import { lang } from "./i18n";
+import { type PersonaLibrary, isNotePersonaId } from "./persona-library";
 
 // ============================================================
 // Preset Guides
 // Architecture:
 //   - MusePersona fields (tone, speechStyle) = short, for UI display
 //   - DETAILED_RULES = full prompt text for AI, per preset
-//   - buildPersonaPrompt() uses DETAILED_RULES for presets,
-//     falls back to simple format for custom personas
+//   - Note personas (persona-library.ts) carry their own full
+//     prompt in `prompt`, taken from the note body
+//   - buildPersonaPrompt() uses DETAILED_RULES for presets, the
+//     note body for note personas, PersonaRules for custom personas
+//     that have them, and falls back to simple format otherwise
 // ============================================================
 
 const PRESETS_JA: Record<string, MusePersona> = {
@@ -297,6 +301,91 @@ Bad examples (FORBIDDEN):
 
 };
 
+// ============================================================
+// Structured Rules
+// Custom personas assemble PersonaRules under the same headings
+// DETAILED_RULES uses. Presets parse back into sections, so a
+// custom persona can start from a copy of one.
+// ============================================================
+
+const RULE_HEADINGS_JA = {
+	tone: "\u53e3\u8abf\u306e\u30eb\u30fc\u30eb:",
+	good: "\u826f\u3044\u4f8b:",
+	forbidden: "\u60aa\u3044\u4f8b\uff08\u7981\u6b62\uff09:",
+};
+
+const RULE_HEADINGS_EN = {
+	tone: "Tone rules:",
+	good: "Good examples:",
+	forbidden: "Bad examples (FORBIDDEN):",
+};
+
+/** The tone rule about deepening questions */
+const DEEPENING_RULE = /^(\u6df1\u6398\u308a|Deepening)/;
+/** Japanese presets state the first person on its own line; custom personas take it from the field */
+const FIRST_PERSON_LINE = /^\u4e00\u4eba\u79f0\u306f\u300c.*\u300d\u3002$/;
+
+export function emptyPersonaRules(): PersonaRules {
+	return { intro: "", toneRules: [], deepening: "", goodExamples: [], forbidden: [] };
+}
+
+/** Whether any section of the rules has content */
+export function hasPersonaRules(rules: PersonaRules): boolean {
+	return rules.intro.trim() !== "" || rules.deepening.trim() !== ""
+		|| rules.toneRules.length > 0 || rules.goodExamples.length > 0 || rules.forbidden.length > 0;
+}
+
+/** Split a preset's detailed prompt into editable sections */
+export function getPresetRules(id: string): PersonaRules {
+	const detailedRules = lang === "ja" ? DETAILED_RULES_JA : DETAILED_RULES_EN;
+	const headings = lang === "ja" ? RULE_HEADINGS_JA : RULE_HEADINGS_EN;
+	const rules = emptyPersonaRules();
+	const intro: string[] = [];
+	let section: "intro" | "tone" | "good" | "forbidden" = "intro";
+
+	for (const line of (detailedRules[id] ?? detailedRules["default"]).split("\n")) {
+		const trimmed = line.trim();
+		if (trimmed === headings.tone) section = "tone";
+		else if (trimmed === headings.good) section = "good";
+		else if (trimmed === headings.forbidden) section = "forbidden";
+		else if (section === "intro") {
+			if (!FIRST_PERSON_LINE.test(trimmed)) intro.push(trimmed);
+		} else if (trimmed.startsWith("- ")) {
+			const item = trimmed.slice(2);
+			if (section === "tone" && DEEPENING_RULE.test(item)) rules.deepening = item;
+			else if (section === "tone") rules.toneRules.push(item);
+			else if (section === "good") rules.goodExamples.push(item);
+			else rules.forbidden.push(item);
+		}
+	}
+	rules.intro = intro.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+	return rules;
+}
+
+/** Assemble a custom persona's rules in the DETAILED_RULES layout */
+function buildRulesPrompt(persona: MusePersona, rules: PersonaRules): string {
+	const headings = lang === "ja" ? RULE_HEADINGS_JA : RULE_HEADINGS_EN;
+	const intro = rules.intro.trim() || [
+		lang === "ja" ? `\u3042\u306a\u305f\u306f\u300c${persona.name}\u300d\u3067\u3059\u3002` : `You are "${persona.name}".`,
+		persona.tone,
+	].filter((line) => line).join("\n");
+
+	const blocks = [intro];
+	if (lang === "ja" && persona.firstPerson) {
+		blocks.push(`\u4e00\u4eba\u79f0\u306f\u300c${persona.firstPerson}\u300d\u3002`);
+	}
+	const section = (heading: string, items: string[]) => {
+		const lines = items.map((item) => item.trim()).filter((item) => item);
+		if (lines.length > 0) blocks.push([heading, ...lines.map((item) => `- ${item}`)].join("\n"));
+	};
+	// Tone rules copied from a preset already describe the speech style
+	const toneRules = rules.toneRules.some((rule) => rule.trim()) ? rules.toneRules : [persona.speechStyle];
+	section(headings.tone, [...toneRules, rules.deepening]);
+	section(headings.good, rules.goodExamples);
+	section(headings.forbidden, rules.forbidden);
+	return blocks.join("\n\n");
+}
+
 /** Get all available preset IDs */
 export function getPresetIds(): string[] {
 	return Object.keys(PRESETS_JA);
@@ -309,16 +398,22 @@ export function getPreset(id: string): MusePersona {
 }
 
 /** Resolve the active persona from settings */
-export function resolvePersona(settings: MusePersonaSettings): MusePersona {
+export function resolvePersona(settings: MusePersonaSettings, library?: PersonaLibrary): MusePersona {
 	if (settings.selected === "custom") {
 		return settings.custom;
 	}
+	// A note that is missing or not indexed yet falls back to the default preset
+	if (isNotePersonaId(settings.selected)) {
+		return library?.get(settings.selected) ?? getPreset("default");
+	}
 	return getPreset(settings.selected);
 }
 
 /**
  * Build a system prompt fragment describing the persona.
  * - For presets: uses DETAILED_RULES (rich prompt with examples & forbidden patterns)
+ * - For note personas: uses the note body when it is not empty
+ * - For custom with rules: assembles PersonaRules in the same layout
  * - For custom: uses the user's tone/speechStyle fields (simple 3-line format)
  */
 export function buildPersonaPrompt(persona: MusePersona): string {
@@ -326,6 +421,8 @@ export function buildPersonaPrompt(persona: MusePersona): string {
 	if (persona.id && persona.id !== "custom" && detailedRules[persona.id]) {
 		return detailedRules[persona.id];
 	}
+	if (persona.prompt) return persona.prompt;
+	if (persona.rules && hasPersonaRules(persona.rules)) return buildRulesPrompt(persona, persona.rules);
 
 	// Custom persona: build from fields
 	if (lang === "ja") {
@@ -0,0 +1,294 @@
+import {
+	type AiSettings,
+	type ProviderConfig,
+	DEFAULT_AI_SETTINGS,
+	PROVIDERS,
+	migrateSettings,
+} from "./types";
+
+// ============================================================
+// Settings export / import and profiles
+// Exports and profiles carry everything except secrets: API keys
+// are blanked, auth-like extra headers are left out, and so is the
+// encrypted key vault. Importing always keeps this device's keys.
+// ============================================================
+
+export const EXPORT_FORMAT = "mwab-settings";
+const EXPORT_VERSION = 1;
+
+/** Default vault path for export files */
+export const EXPORT_PATH = "muse-weaver-ai-bridge-settings.json";
+
+/** "merge" keeps sections the import does not mention; "replace" resets them to defaults */
+export type ImportMode = "merge" | "replace";
+
+type FieldKind = "boolean" | "string" | "number" | "object" | "array";
+
+/** Settings that travel in exports and profiles, with their JSON type */
+const PORTABLE: Partial<Record<keyof AiSettings, FieldKind>> = {
+	enabled: "boolean",
+	provider: "string",
+	providers: "object",
+	ollamaUrl: "string",
+	persona: "object",
+	retry: "object",
+	fallbacks: "array",
+	budget: "object",
+	cache: "object",
+	audit: "object",
+	mock: "object",
+	scheduler: "object",
+	taskRoutes: "array",
+	paramPresets: "array",
+};
+
+interface ExportFile {
+	format: typeof EXPORT_FORMAT;
+	version: number;
+	exportedAt: string;
+	settings: Partial<AiSettings>;
+}
+
+export type ImportResult =
+	| { ok: true; settings: Partial<AiSettings> }
+	| { ok: false; error: string };
+
+/** Extra headers that carry credentials (Authorization, api-key, X-Auth-Token, ...) */
+const SECRET_HEADER = /auth|key|token|secret|cookie|session|password/i;
+
+/** Split extra headers into the shareable ones and the credentials */
+function splitHeaders(headers: Record<string, string> | undefined): { shared: Record<string, string>; secret: Record<string, string> } {
+	const shared: Record<string, string> = {};
+	const secret: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers ?? {})) {
+		(SECRET_HEADER.test(name) ? secret : shared)[name] = value;
+	}
+	return { shared, secret };
+}
+
+function kindOf(value: unknown): FieldKind | "other" {
+	if (Array.isArray(value)) return "array";
+	if (value !== null && typeof value === "object") return "object";
+	if (typeof value === "boolean" || typeof value === "string") return typeof value as FieldKind;
+	if (typeof value === "number" && Number.isFinite(value)) return "number";
+	return "other";
+}
+
+function describeKind(kind: FieldKind): string {
+	return kind === "array" || kind === "object" ? `an ${kind}` : `a ${kind}`;
+}
+
+/** Nested objects and the JSON types of their fields */
+const RETRY_FIELDS: Record<string, FieldKind> = { maxAttempts: "number", baseDelayMs: "number", maxDelayMs: "number", jitter: "boolean" };
+const BUDGET_FIELDS: Record<string, FieldKind> = { global: "object", providers: "object", warnThresholds: "array", fallbackToOllama: "boolean" };
+const BUDGET_SCOPE_FIELDS: Record<string, FieldKind> = { daily: "object", monthly: "object" };
+const BUDGET_LIMIT_FIELDS: Record<string, FieldKind> = { requests: "number", tokens: "number", cost: "number" };
+const SCHEDULER_FIELDS: Record<string, FieldKind> = { maxConcurrent: "number", providers: "object" };
+const RATE_LIMIT_FIELDS: Record<string, FieldKind> = { concurrency: "number", rpm: "number", tpm: "number" };
+const CACHE_FIELDS: Record<string, FieldKind> = { enabled: "boolean", ttlHours: "number", maxSizeMb: "number" };
+const AUDIT_FIELDS: Record<string, FieldKind> = { enabled: "boolean", folder: "string", format: "string", retentionDays: "number" };
+const MOCK_FIELDS: Record<string, FieldKind> = { mode: "string", rules: "array", defaultResponse: "string", recordProvider: "string", fixtureFile: "string" };
+const MOCK_RULE_FIELDS: Record<string, FieldKind> = { pattern: "string", response: "string" };
+const PERSONA_FIELDS: Record<string, FieldKind> = { selected: "string", custom: "object", folder: "string" };
+const ROUTE_FIELDS: Record<string, FieldKind> = { provider: "string", model: "string" };
+const TASK_ROUTE_FIELDS: Record<string, FieldKind> = { ...ROUTE_FIELDS, task: "string" };
+
+/** First field of `value` (at `path`) whose type is wrong; missing fields are fine */
+function checkFields(path: string, value: unknown, fields: Record<string, FieldKind>): string | undefined {
+	if (value === undefined) return undefined;
+	if (kindOf(value) !== "object") return `"${path}" should be an object`;
+	for (const [key, kind] of Object.entries(fields)) {
+		const field = (value as Record<string, unknown>)[key];
+		if (field !== undefined && kindOf(field) !== kind) return `"${path}.${key}" should be ${describeKind(kind)}`;
+	}
+	return undefined;
+}
+
+/** checkFields for each entry of an array, or each value of a provider-keyed map */
+function checkEach(path: string, items: unknown, check: (path: string, item: unknown) => string | undefined): string | undefined {
+	const entries = Array.isArray(items)
+		? items.map((item, i) => [`${path}[${i}]`, item] as const)
+		: Object.entries((items ?? {}) as Record<string, unknown>).map(([key, item]) => [`${path}.${key}`, item] as const);
+	for (const [itemPath, item] of entries) {
+		const error = check(itemPath, item);
+		if (error) return error;
+	}
+	return undefined;
+}
+
+function checkBudgetScope(path: string, scope: unknown): string | undefined {
+	const error = checkFields(path, scope, BUDGET_SCOPE_FIELDS);
+	if (error || scope === undefined) return error;
+	const { daily, monthly } = scope as Record<string, unknown>;
+	return checkFields(`${path}.daily`, daily, BUDGET_LIMIT_FIELDS) ?? checkFields(`${path}.monthly`, monthly, BUDGET_LIMIT_FIELDS);
+}
+
+/** Provider-keyed maps only accept known provider IDs */
+function checkProviderKeys(path: string, map: unknown): string | undefined {
+	const unknownId = Object.keys((map ?? {}) as Record<string, unknown>).find((id) => !isProviderId(id));
+	return unknownId !== undefined ? `Unknown provider "${unknownId}" in "${path}"` : undefined;
+}
+
+/** Shape problems inside the nested sections, so none reaches migrateSettings */
+function validateNested(settings: Record<string, unknown>): string | undefined {
+	const budget = settings.budget as Record<string, unknown> | undefined;
+	const scheduler = settings.scheduler as Record<string, unknown> | undefined;
+	const mock = settings.mock as Record<string, unknown> | undefined;
+	const checks: (() => string | undefined)[] = [
+		() => checkFields("retry", settings.retry, RETRY_FIELDS),
+		() => checkFields("budget", budget, BUDGET_FIELDS),
+		() => checkBudgetScope("budget.global", budget?.global),
+		() => checkProviderKeys("budget.providers", budget?.providers),
+		() => checkEach("budget.providers", budget?.providers, checkBudgetScope),
+		() => (budget?.warnThresholds as unknown[] | undefined)?.some((v) => kindOf(v) !== "number")
+			? "\"budget.warnThresholds\" should only contain numbers"
+			: undefined,
+		() => checkFields("scheduler", scheduler, SCHEDULER_FIELDS),
+		() => checkProviderKeys("scheduler.providers", scheduler?.providers),
+		() => checkEach("scheduler.providers", scheduler?.providers, (path, limits) => checkFields(path, limits, RATE_LIMIT_FIELDS)),
+		() => checkFields("cache", settings.cache, CACHE_FIELDS),
+		() => checkFields("audit", settings.audit, AUDIT_FIELDS),
+		() => {
+			const format = (settings.audit as { format?: unknown } | undefined)?.format;
+			return format !== undefined && format !== "markdown" && format !== "jsonl" ? `Unknown audit format "${String(format)}"` : undefined;
+		},
+		() => checkFields("mock", mock, MOCK_FIELDS),
+		() => checkEach("mock.rules", mock?.rules, (path, rule) => checkFields(path, rule, MOCK_RULE_FIELDS)),
+		() => mock?.mode !== undefined && !["script", "record", "replay"].includes(mock.mode as string)
+			? `Unknown mock mode "${String(mock.mode)}"`
+			: undefined,
+		() => mock?.recordProvider !== undefined && !isProviderId(mock.recordProvider)
+			? `Unknown provider "${String(mock.recordProvider)}" in "mock.recordProvider"`
+			: undefined,
+		() => checkFields("persona", settings.persona, PERSONA_FIELDS),
+		() => checkEach("fallbacks", settings.fallbacks, (path, route) => checkFields(path, route, ROUTE_FIELDS)),
+		() => checkEach("taskRoutes", settings.taskRoutes, (path, route) => checkFields(path, route, TASK_ROUTE_FIELDS)),
+		() => checkEach("paramPresets", settings.paramPresets, (path, preset) => checkFields(path, preset, { name: "string" })),
+	];
+	for (const check of checks) {
+		const error = check();
+		if (error) return error;
+	}
+	return undefined;
+}
+
+function isProviderId(value: unknown): boolean {
+	return PROVIDERS.some((p) => p.id === value);
+}
+
+/** The portable part of the settings, as a deep copy without API keys or auth headers */
+export function snapshotSettings(s: AiSettings): Partial<AiSettings> {
+	const picked: Record<string, unknown> = {};
+	for (const key of Object.keys(PORTABLE) as (keyof AiSettings)[]) {
+		picked[key] = s[key];
+	}
+	const snapshot = JSON.parse(JSON.stringify(picked)) as Partial<AiSettings>;
+	for (const config of Object.values(snapshot.providers ?? {})) {
+		config.apiKey = "";
+		if (config.extraHeaders) config.extraHeaders = splitHeaders(config.extraHeaders).shared;
+	}
+	return snapshot;
+}
+
+export function exportSettings(s: AiSettings): string {
+	const file: ExportFile = {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		settings: snapshotSettings(s),
+	};
+	return JSON.stringify(file, null, 2);
+}
+
+/** First schema problem in imported settings, or undefined when they are usable */
+function validateSettings(settings: Record<string, unknown>): string | undefined {
+	for (const [key, kind] of Object.entries(PORTABLE)) {
+		const value = settings[key];
+		if (value !== undefined && kindOf(value) !== kind) return `"${key}" should be ${describeKind(kind)}`;
+	}
+	if (settings.provider !== undefined && !isProviderId(settings.provider)) {
+		return `Unknown provider "${String(settings.provider)}"`;
+	}
+	for (const [id, config] of Object.entries((settings.providers ?? {}) as Record<string, unknown>)) {
+		if (!isProviderId(id)) return `Unknown provider "${id}" in "providers"`;
+		if (kindOf(config) !== "object") return `"providers.${id}" should be an object`;
+		const { model, baseUrl, extraHeaders } = config as Partial<ProviderConfig>;
+		if (model !== undefined && typeof model !== "string") return `"providers.${id}.model" should be a string`;
+		if (baseUrl !== undefined && typeof baseUrl !== "string") return `"providers.${id}.baseUrl" should be a string`;
+		if (extraHeaders !== undefined && (kindOf(extraHeaders) !== "object" || Object.values(extraHeaders).some((v) => typeof v !== "string"))) {
+			return `"providers.${id}.extraHeaders" should map header names to strings`;
+		}
+	}
+	for (const key of ["fallbacks", "taskRoutes"] as const) {
+		for (const route of (settings[key] ?? []) as unknown[]) {
+			if (kindOf(route) !== "object" || !isProviderId((route as { provider?: unknown }).provider)) {
+				return `"${key}" contains an entry without a known provider`;
+			}
+		}
+	}
+	const persona = settings.persona as { selected?: unknown } | undefined;
+	if (persona && typeof persona.selected !== "string") return `"persona.selected" should be a string`;
+	return validateNested(settings);
+}
+
+/** Parse and validate an export file; only portable settings are returned */
+export function parseSettingsImport(text: string): ImportResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return { ok: false, error: "Not valid JSON" };
+	}
+	const file = data as Partial<ExportFile>;
+	if (kindOf(data) !== "object" || file.format !== EXPORT_FORMAT) {
+		return { ok: false, error: "Not a Muse Weaver AI Bridge settings export" };
+	}
+	if (typeof file.version !== "number" || file.version > EXPORT_VERSION) {
+		return { ok: false, error: "Exported by a newer version of the plugin" };
+	}
+	if (kindOf(file.settings) !== "object") return { ok: false, error: "\"settings\" is missing" };
+
+	const settings = file.settings as Record<string, unknown>;
+	const error = validateSettings(settings);
+	if (error) return { ok: false, error };
+	const picked: Record<string, unknown> = {};
+	for (const key of Object.keys(PORTABLE)) {
+		if (settings[key] !== undefined) picked[key] = settings[key];
+	}
+	return { ok: true, settings: picked as Partial<AiSettings> };
+}
+
+/**
+ * Settings after applying an import or profile. This device's API keys,
+ * auth headers, key vault and profile list are always kept.
+ */
+export function applyImport(current: AiSettings, imported: Partial<AiSettings>, mode: ImportMode): AiSettings {
+	const incoming = JSON.parse(JSON.stringify(imported)) as Partial<AiSettings>;
+	const base: AiSettings = mode === "replace"
+		? JSON.parse(JSON.stringify(DEFAULT_AI_SETTINGS))
+		: { ...current };
+
+	const providers: Record<string, ProviderConfig> = mode === "replace" ? {} : { ...current.providers };
+	for (const [id, config] of Object.entries(incoming.providers ?? {})) {
+		const extraHeaders = config.extraHeaders ? splitHeaders(config.extraHeaders).shared : undefined;
+		providers[id] = { ...providers[id], ...config, apiKey: "", ...(extraHeaders ? { extraHeaders } : {}) };
+	}
+	for (const [id, config] of Object.entries(current.providers)) {
+		if (config.apiKey) providers[id] = { ...(providers[id] ?? { model: "" }), apiKey: config.apiKey };
+		const { secret } = splitHeaders(config.extraHeaders);
+		if (Object.keys(secret).length > 0) {
+			const target = providers[id] ?? { apiKey: "", model: "" };
+			providers[id] = { ...target, extraHeaders: { ...target.extraHeaders, ...secret } };
+		}
+	}
+
+	return migrateSettings({
+		...base,
+		...incoming,
+		providers,
+		keyVault: current.keyVault,
+		keySealPrompted: current.keySealPrompted,
+		profiles: current.profiles,
+		activeProfile: current.activeProfile,
+	});
+}
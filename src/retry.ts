@@ -0,0 +1,85 @@
+import type { RetryPolicy } from "./types";
+
+// ============================================================
+// Retry helpers
+// Which failures are retried is decided by their error code
+// (see isRetryable in errors.ts); this module handles timing.
+// ============================================================
+
+/**
+ * Parse a Go-style duration ("1s", "6m0s", "250ms", "30.5s") into milliseconds.
+ * Used by OpenAI rate-limit reset headers and Gemini's RetryInfo.retryDelay.
+ */
+export function parseDuration(value: string): number | undefined {
+	const re = /([\d.]+)(ms|h|m|s)/g;
+	let total = 0;
+	let matched = false;
+	let m = re.exec(value);
+	while (m) {
+		const n = parseFloat(m[1]);
+		const unit = m[2];
+		total += unit === "h" ? n * 3_600_000 : unit === "m" ? n * 60_000 : unit === "s" ? n * 1000 : n;
+		matched = true;
+		m = re.exec(value);
+	}
+	return matched ? total : undefined;
+}
+
+/**
+ * Read the server-requested wait time from response headers.
+ * Checks `retry-after-ms`, `retry-after` (seconds or HTTP date) and,
+ * for 429s only, OpenAI's rate-limit reset headers: OpenAI sends those
+ * on every response, so for other statuses they are not a retry hint.
+ * `message` is the provider's error text, used to tell token-limit 429s
+ * (reset by `x-ratelimit-reset-tokens`) from request-limit ones.
+ */
+export function parseRetryAfter(headers: Headers, status: number, message = ""): number | undefined {
+	const ms = headers.get("retry-after-ms");
+	if (ms && !isNaN(Number(ms))) return Number(ms);
+
+	const retryAfter = headers.get("retry-after");
+	if (retryAfter) {
+		if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+		const date = Date.parse(retryAfter);
+		if (!isNaN(date)) return Math.max(0, date - Date.now());
+	}
+
+	if (status !== 429) return undefined;
+	const tokenLimited = headers.get("x-ratelimit-remaining-tokens") === "0" || /tokens per|\bTPM\b/i.test(message);
+	const reset = tokenLimited
+		? headers.get("x-ratelimit-reset-tokens") ?? headers.get("x-ratelimit-reset-requests")
+		: headers.get("x-ratelimit-reset-requests");
+	if (reset) return parseDuration(reset);
+
+	return undefined;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at maxDelayMs,
+ * with optional jitter in [50%, 100%] of the computed value.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+	const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+	return policy.jitter ? exp * (0.5 + Math.random() / 2) : exp;
+}
+
+/**
+ * Wait for `ms`, resolving early if the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
@@ -0,0 +1,180 @@
+import type { AiPriority, AiProvider, ProviderRateLimits, SchedulerSettings } from "./types";
+
+// ============================================================
+// Request scheduler
+// Every provider call waits here for a free slot. Jobs start in
+// priority order, FIFO within a priority; a job blocked by its own
+// provider's limits does not hold up jobs for other providers.
+// ============================================================
+
+/** Window over which requests and tokens per minute are counted */
+const RATE_WINDOW_MS = 60_000;
+
+const PRIORITY_RANK: Record<AiPriority, number> = { high: 2, normal: 1, low: 0 };
+
+const NO_RATE_LIMITS: ProviderRateLimits = { concurrency: 0, rpm: 0, tpm: 0 };
+
+interface Job {
+	provider: AiProvider;
+	tokens: number;
+	rank: number;
+	/** Last position reported to the caller (0 = started) */
+	position: number;
+	onPosition?: (position: number) => void;
+	start: () => void;
+}
+
+interface WindowEntry {
+	at: number;
+	tokens: number;
+}
+
+export class RequestScheduler {
+	private settings: () => SchedulerSettings;
+	private queue: Job[] = [];
+	private running = new Map<AiProvider, number>();
+	private runningTotal = 0;
+	private windows = new Map<AiProvider, WindowEntry[]>();
+	private timer: number | undefined;
+
+	constructor(settings: () => SchedulerSettings) {
+		this.settings = settings;
+	}
+
+	/** Requests waiting for a slot */
+	get pending(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Run `task` once the provider has capacity.
+	 * `tokens` is the estimated prompt + output size, counted toward TPM.
+	 * `onPosition` receives the 1-based queue position while waiting
+	 * and 0 when the task starts. Rejects if `signal` aborts while queued.
+	 */
+	schedule<T>(
+		provider: AiProvider,
+		tokens: number,
+		priority: AiPriority,
+		task: () => Promise<T>,
+		signal?: AbortSignal,
+		onPosition?: (position: number) => void,
+	): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new Error("Request cancelled"));
+				return;
+			}
+
+			const onAbort = () => {
+				this.queue = this.queue.filter((j) => j !== job);
+				reject(new Error("Request cancelled"));
+				this.pump();
+			};
+			const job: Job = {
+				provider,
+				tokens,
+				rank: PRIORITY_RANK[priority],
+				position: -1,
+				onPosition,
+				start: () => {
+					signal?.removeEventListener("abort", onAbort);
+					this.acquire(provider, tokens);
+					task().then(resolve, reject).finally(() => {
+						this.release(provider);
+						this.pump();
+					});
+				},
+			};
+			signal?.addEventListener("abort", onAbort, { once: true });
+
+			// Insert after every job of equal or higher priority
+			const index = this.queue.findIndex((j) => j.rank < job.rank);
+			if (index < 0) this.queue.push(job);
+			else this.queue.splice(index, 0, job);
+			this.pump();
+		});
+	}
+
+	private limitsFor(provider: AiProvider): ProviderRateLimits {
+		return { ...NO_RATE_LIMITS, ...this.settings().providers[provider] };
+	}
+
+	private acquire(provider: AiProvider, tokens: number): void {
+		this.running.set(provider, (this.running.get(provider) ?? 0) + 1);
+		this.runningTotal++;
+		const recent = this.windows.get(provider) ?? [];
+		recent.push({ at: Date.now(), tokens });
+		this.windows.set(provider, recent);
+	}
+
+	private release(provider: AiProvider): void {
+		this.running.set(provider, Math.max(0, (this.running.get(provider) ?? 1) - 1));
+		this.runningTotal = Math.max(0, this.runningTotal - 1);
+	}
+
+	/**
+	 * How long until the provider can take a job of this size:
+	 * 0 = now, Infinity = when a running job finishes.
+	 */
+	private waitFor(job: Job, now: number): number {
+		const limits = this.limitsFor(job.provider);
+		if (limits.concurrency > 0 && (this.running.get(job.provider) ?? 0) >= limits.concurrency) return Infinity;
+
+		const recent = (this.windows.get(job.provider) ?? []).filter((e) => now - e.at < RATE_WINDOW_MS);
+		this.windows.set(job.provider, recent);
+		if (limits.rpm > 0 && recent.length >= limits.rpm) {
+			return recent[recent.length - limits.rpm].at + RATE_WINDOW_MS - now;
+		}
+
+		let used = recent.reduce((sum, e) => sum + e.tokens, 0);
+		if (limits.tpm > 0 && used > 0 && used + job.tokens > limits.tpm) {
+			// Wait until enough old entries expire; a job larger than the whole budget runs once the window is empty
+			for (const entry of recent) {
+				used -= entry.tokens;
+				if (used <= 0 || used + job.tokens <= limits.tpm) return entry.at + RATE_WINDOW_MS - now;
+			}
+		}
+		return 0;
+	}
+
+	/** Start every job that can run now, then report queue positions */
+	private pump(): void {
+		if (this.timer !== undefined) {
+			window.clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+
+		const now = Date.now();
+		const maxConcurrent = this.settings().maxConcurrent;
+		const blocked = new Set<AiProvider>();
+		let nextWake = Infinity;
+
+		for (const job of [...this.queue]) {
+			if (maxConcurrent > 0 && this.runningTotal >= maxConcurrent) break;
+			// Keep FIFO within a provider: once one of its jobs waits, later ones wait too
+			if (blocked.has(job.provider)) continue;
+			const wait = this.waitFor(job, now);
+			if (wait > 0) {
+				blocked.add(job.provider);
+				nextWake = Math.min(nextWake, wait);
+				continue;
+			}
+			this.queue = this.queue.filter((j) => j !== job);
+			job.position = 0;
+			job.onPosition?.(0);
+			job.start();
+		}
+
+		this.queue.forEach((job, i) => {
+			if (job.position !== i + 1) {
+				job.position = i + 1;
+				job.onPosition?.(i + 1);
+			}
+		});
+
+		if (this.queue.length > 0 && nextWake < Infinity) {
+			this.timer = window.setTimeout(() => this.pump(), Math.max(50, nextWake));
+		}
+	}
+}
@@ -0,0 +1,156 @@
+import type { AiMessage, AiRequest, AiResult, AiStreamChunk } from "./types";
+import { lang } from "./i18n";
+
+// ============================================================
+// Multi-turn conversation sessions
+// History is kept as role-tagged turns and sent with every request.
+// When it nears the model's context window, older turns are folded
+// into a running summary that is appended to the system prompt.
+// ============================================================
+
+/** Options given by the consumer when creating a session */
+export interface AiSessionOptions {
+	system: string;
+	maxTokens?: number;
+	/** Override the provider's context window (tokens) used for compaction */
+	contextWindow?: number;
+	/** Consumer plugin ID, attached to every request for usage tracking */
+	consumer?: string;
+	/** Task tag attached to every request (selects the routed model and its context window) */
+	task?: string;
+}
+
+/** How a session reaches the bridge (decoupled from the plugin class) */
+export interface SessionTransport {
+	call: (req: AiRequest, onChunk?: (chunk: AiStreamChunk) => void) => Promise<AiResult>;
+	contextWindow: () => number;
+}
+
+/** Fraction of the context window the prompt may fill before compacting */
+const COMPACT_THRESHOLD = 0.75;
+
+/** Most recent turns that are always kept verbatim */
+const KEEP_RECENT_TURNS = 4;
+
+/** Output budget reserved when the consumer gives no maxTokens */
+const RESERVED_OUTPUT_TOKENS = 1024;
+
+const SUMMARY_PROMPT_JA = "\u4ee5\u4e0b\u306e\u4f1a\u8a71\u3092\u3001\u767b\u5834\u4eba\u7269\u30fb\u8a2d\u5b9a\u30fb\u6c7a\u5b9a\u4e8b\u9805\u30fb\u672a\u89e3\u6c7a\u306e\u8ad6\u70b9\u3092\u6f0f\u3089\u3055\u305a\u7c21\u6f54\u306b\u8981\u7d04\u3057\u3066\u304f\u3060\u3055\u3044\u3002\u8981\u7d04\u306e\u307f\u3092\u51fa\u529b\u3057\u3066\u304f\u3060\u3055\u3044\u3002";
+const SUMMARY_PROMPT_EN = "Summarize the following conversation concisely, keeping every character, setting detail, decision and open question. Output only the summary.";
+
+const SUMMARY_HEADER_JA = "\u3053\u308c\u307e\u3067\u306e\u4f1a\u8a71\u306e\u8981\u7d04:";
+const SUMMARY_HEADER_EN = "Summary of the conversation so far:";
+
+/**
+ * Rough token estimate without a tokenizer.
+ * Non-ASCII (e.g. Japanese) characters count as ~1 token, ASCII as ~4 chars/token.
+ */
+export function estimateTokens(text: string): number {
+	let ascii = 0;
+	let other = 0;
+	for (let i = 0; i < text.length; i++) {
+		if (text.charCodeAt(i) < 128) ascii++;
+		else other++;
+	}
+	return Math.ceil(ascii / 4) + other;
+}
+
+export class AiSession {
+	options: AiSessionOptions;
+	/** Verbatim turns, oldest first */
+	history: AiMessage[] = [];
+	/** Running summary of turns removed by compaction */
+	summary = "";
+
+	private transport: SessionTransport;
+
+	constructor(transport: SessionTransport, options: AiSessionOptions) {
+		this.transport = transport;
+		this.options = options;
+	}
+
+	/** Append a user turn without sending it */
+	addUser(content: string): void {
+		this.history.push({ role: "user", content });
+	}
+
+	/** Append an assistant turn (e.g. restoring a saved conversation) */
+	addAssistant(content: string): void {
+		this.history.push({ role: "assistant", content });
+	}
+
+	/** Forget all turns and the running summary */
+	reset(): void {
+		this.history = [];
+		this.summary = "";
+	}
+
+	/**
+	 * Send a new user message with the full history.
+	 * Both turns are recorded only when the request succeeds.
+	 */
+	async send(message: string, onChunk?: (chunk: AiStreamChunk) => void): Promise<AiResult> {
+		await this.compactIfNeeded(message);
+		const result = await this.transport.call(this.buildRequest(message), onChunk);
+		if (result.ok) {
+			this.addUser(message);
+			this.addAssistant(result.text);
+		}
+		return result;
+	}
+
+	private buildRequest(message: string): AiRequest {
+		const header = lang === "ja" ? SUMMARY_HEADER_JA : SUMMARY_HEADER_EN;
+		const system = this.summary
+			? `${this.options.system}\n\n${header}\n${this.summary}`
+			: this.options.system;
+		return {
+			system,
+			message,
+			maxTokens: this.options.maxTokens,
+			history: [...this.history],
+			consumer: this.options.consumer,
+			task: this.options.task,
+		};
+	}
+
+	private estimatePromptTokens(message: string): number {
+		const req = this.buildRequest(message);
+		const turns = req.history ?? [];
+		return estimateTokens(req.system) + estimateTokens(message)
+			+ turns.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+	}
+
+	/**
+	 * Summarize older turns when the prompt would exceed the threshold.
+	 * On failure the history is left untouched so no dialogue is lost.
+	 */
+	private async compactIfNeeded(message: string): Promise<void> {
+		const window = this.options.contextWindow ?? this.transport.contextWindow();
+		const budget = window * COMPACT_THRESHOLD - (this.options.maxTokens ?? RESERVED_OUTPUT_TOKENS);
+		if (this.estimatePromptTokens(message) <= budget) return;
+		if (this.history.length <= KEEP_RECENT_TURNS) return;
+
+		let split = this.history.length - KEEP_RECENT_TURNS;
+		// Keep the retained history starting with a user turn (required by Anthropic / Gemini)
+		while (split < this.history.length && this.history[split].role === "assistant") split++;
+		const older = this.history.slice(0, split);
+		if (older.length === 0) return;
+
+		const transcript = older.map((m) => `${m.role}: ${m.content}`).join("\n\n");
+		const result = await this.transport.call({
+			system: lang === "ja" ? SUMMARY_PROMPT_JA : SUMMARY_PROMPT_EN,
+			message: this.summary ? `${this.summary}\n\n${transcript}` : transcript,
+			maxTokens: this.options.maxTokens ?? RESERVED_OUTPUT_TOKENS,
+			consumer: this.options.consumer,
+			task: this.options.task,
+		});
+		if (!result.ok) {
+			console.warn("[MWAB Session] compaction failed:", result.error);
+			return;
+		}
+
+		this.summary = result.text;
+		this.history = this.history.slice(split);
+	}
+}
@@ -1,12 +1,77 @@
-import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import { App, type DropdownComponent, Notice, PluginSettingTab, Setting, normalizePath } from "obsidian";
 import type MuseWeaverAiBridgePlugin from "./main";
-import { PROVIDERS, DEFAULT_AI_SETTINGS, type AiProvider, type AiSettings, getApiKey, getModel, getJapaneseRating, diagnoseModel } from "./types";
-import { callAi, listOllamaModels, showOllamaModel, type OllamaModelEntry } from "./ai-client";
+import { PROVIDERS, DEFAULT_RETRY_POLICY, DEFAULT_CACHE_SETTINGS, DEFAULT_AUDIT_SETTINGS, DEFAULT_MOCK_SETTINGS, DEFAULT_PERSONA_SETTINGS, type AiProvider, type AuditFormat, type MockMode, type KeySource, type AiSettings, type BudgetLimits, type ProviderRateLimits, getApiKey, getModel, getJapaneseRating, diagnoseModel, normalizeBudgetScope } from "./types";
+import { listOllamaModels, listOpenAiCompatibleModels, showOllamaModel, type OllamaModelEntry } from "./ai-client";
+import { getErrorHint } from "./errors";
 import { t, lang } from "./i18n";
-import { getPresetIds, getPreset, resolvePersona, buildPersonaPrompt } from "./persona";
+import { getPresetIds, getPreset, getPresetRules, emptyPersonaRules, resolvePersona, buildPersonaPrompt } from "./persona";
+import { NOTE_PERSONA_PREFIX, isNotePersonaId } from "./persona-library";
+import type { AuditionReply } from "./audition";
+import { dayKey, sumUsage, type UsageRecord } from "./usage";
+import { formatMeterValue, measureUsage, type BudgetMetric, type BudgetPeriod } from "./budget";
+import { PARAM_KEYS, formatParamLines, parseParamLines } from "./params";
+import { resolveApiKey } from "./keysource";
+import { EXPORT_PATH, type ImportMode, applyImport, exportSettings, parseSettingsImport, snapshotSettings } from "./profiles";
+
+/** Days shown in the usage chart */
+const USAGE_CHART_DAYS = 14;
+
+/** Days covered by the per-plugin / per-model breakdown */
+const USAGE_SUMMARY_DAYS = 30;
+
+/** Parse "Name: value" lines into a header map, ignoring malformed lines */
+function parseHeaderLines(text: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const colon = line.indexOf(":");
+		if (colon <= 0) continue;
+		const name = line.slice(0, colon).trim();
+		const value = line.slice(colon + 1).trim();
+		if (name && value) headers[name] = value;
+	}
+	return headers;
+}
+
+function daysAgo(n: number): string {
+	const date = new Date();
+	date.setDate(date.getDate() - n);
+	return dayKey(date);
+}
+
+function formatTokens(n: number): string {
+	return n.toLocaleString();
+}
+
+function formatCost(cost: number | undefined): string {
+	if (cost === undefined) return "$ \u2014";
+	return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+/** Group records by a key, preserving first-seen order */
+function groupRecords(records: UsageRecord[], keyOf: (r: UsageRecord) => string): Map<string, UsageRecord[]> {
+	const groups = new Map<string, UsageRecord[]>();
+	for (const r of records) {
+		const key = keyOf(r);
+		groups.set(key, [...(groups.get(key) ?? []), r]);
+	}
+	return groups;
+}
+
+/** One guide's reply in the audition panel */
+interface AuditionCard {
+	meta: HTMLElement;
+	body: HTMLElement;
+	/** Reply being shown, so a slower earlier run does not overwrite it */
+	reply?: Promise<AuditionReply>;
+}
 
 export class MwabSettingTab extends PluginSettingTab {
 	plugin: MuseWeaverAiBridgePlugin;
+	/** Budget scope being edited: a provider, or "" for all providers */
+	private budgetScope: AiProvider | "" = "";
+	/** Audition snippet being edited; empty uses the built-in one */
+	private auditionSnippet = "";
+	private auditionOpen = false;
 
 	constructor(app: App, plugin: MuseWeaverAiBridgePlugin) {
 		super(app, plugin);
@@ -61,15 +126,23 @@ export class MwabSettingTab extends PluginSettingTab {
 				});
 			});
 
-		// ---- API Key (if needed) ----
-		if (currentProvider.needsApiKey) {
+		// ---- API Key (if needed; optional for OpenAI-compatible servers) ----
+		const isCompatible = s.provider === "openai-compatible";
+		if (currentProvider.needsApiKey || isCompatible) {
+			const keySource = s.providers[s.provider]?.keySource ?? "stored";
+			this.renderKeySource(containerEl, s);
+
+			const locked = this.plugin.keysLocked;
+			const desc = isCompatible ? t.apiKeyOptionalDesc : t.apiKeyDesc(currentProvider.name);
 			new Setting(containerEl)
-				.setName(t.apiKey)
-				.setDesc(t.apiKeyDesc(currentProvider.name))
+				.setName(keySource === "stored" ? t.apiKey : t.apiKeyFallback)
+				.setDesc(locked ? t.keysLockedDesc : keySource === "stored" ? desc : t.apiKeyFallbackDesc)
 				.addText((text) =>
 					text
 						.setPlaceholder("sk-... / anthropic-... / AIza...")
-						.setValue(getApiKey(s))
+						// The stored key only; an external key is never shown
+						.setValue(s.providers[s.provider]?.apiKey || "")
+						.setDisabled(locked)
 						.onChange(async (v) => {
 							this.ensureProvider(s.provider);
 							s.providers[s.provider].apiKey = v.trim();
@@ -96,6 +169,38 @@ export class MwabSettingTab extends PluginSettingTab {
 				);
 		}
 
+		// ---- OpenAI-compatible base URL and headers (before model selector) ----
+		if (isCompatible) {
+			this.ensureProvider("openai-compatible");
+			const config = s.providers["openai-compatible"];
+			new Setting(containerEl)
+				.setName(t.compatibleBaseUrl)
+				.setDesc(t.compatibleBaseUrlDesc)
+				.addText((text) =>
+					text
+						.setPlaceholder("http://localhost:1234/v1")
+						.setValue(config.baseUrl || "")
+						.onChange(async (v) => {
+							config.baseUrl = v.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t.compatibleHeaders)
+				.setDesc(t.compatibleHeadersDesc)
+				.addTextArea((text) => {
+					text
+						.setPlaceholder("HTTP-Referer: https://example.com")
+						.setValue(Object.entries(config.extraHeaders || {}).map(([k, v]) => `${k}: ${v}`).join("\n"))
+						.onChange(async (v) => {
+							config.extraHeaders = parseHeaderLines(v);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 2;
+				});
+		}
+
 		// ---- Model ----
 		if (s.provider === "ollama") {
 			// Async: render placeholder then populate dropdown
@@ -105,6 +210,15 @@ export class MwabSettingTab extends PluginSettingTab {
 			void this.renderOllamaModelSelector(modelContainer, s).then(() => {
 				loadingEl.remove();
 			});
+		} else if (isCompatible) {
+			const modelContainer = containerEl.createDiv();
+			const loadingEl = modelContainer.createDiv({ cls: "setting-item-description" });
+			loadingEl.setText(t.ollamaFetchingModels);
+			void this.renderCompatibleModelSelector(modelContainer, s).then(() => {
+				loadingEl.remove();
+			});
+		} else if (s.provider === "mock") {
+			this.renderMockSection(containerEl, s);
 		} else {
 			// Always show the stored value as-is. Placeholder shows default.
 			const storedModel = s.providers[s.provider]?.model || "";
@@ -122,6 +236,16 @@ export class MwabSettingTab extends PluginSettingTab {
 				);
 		}
 
+		// ---- Key encryption ----
+		this.renderKeyVaultSection(containerEl);
+
+		// ---- Retry / Fallback ----
+		this.renderRetrySection(containerEl, s);
+		this.renderFallbackSection(containerEl, s);
+		this.renderTaskRouteSection(containerEl, s);
+		this.renderQueueSection(containerEl, s);
+		this.renderParamPresetSection(containerEl, s);
+
 		// ---- Connection Test ----
 		new Setting(containerEl).setName(t.testHeading).setHeading();
 
@@ -140,10 +264,15 @@ export class MwabSettingTab extends PluginSettingTab {
 						testResultEl.setText(t.testConnecting);
 						testResultEl.style.color = "";
 
-						const result = await callAi(this.plugin.settings, {
+						// Through the plugin, so the mock provider gets its fixture store
+						const result = await this.plugin.callAi({
 							system: "You are a test assistant. Respond with exactly: OK",
 							message: "Connection test. Respond with: OK",
 							maxTokens: 50,
+							consumer: "muse-weaver-ai-bridge",
+							retry: { maxAttempts: 1 },
+							fallback: false,
+							cache: "bypass",
 						});
 
 						testResultEl.empty();
@@ -161,23 +290,824 @@ export class MwabSettingTab extends PluginSettingTab {
 							testResultEl.createDiv({ text: t.testFail(result.error || "Unknown error") });
 							testResultEl.style.color = "var(--text-error)";
 
-							if (result.error?.includes("404") || result.error?.includes("not found")) {
+							const hintText = getErrorHint(result.errorCode);
+							if (hintText) {
 								const hint = testResultEl.createDiv();
 								hint.style.color = "var(--text-muted)";
 								hint.style.marginTop = "4px";
 								hint.style.fontSize = "0.85em";
-								hint.setText(t.error404Hint);
+								hint.setText(hintText);
 							}
 						}
 					})
 			);
 
+		// ---- Token usage / Budgets ----
+		this.renderUsageSection(containerEl);
+		this.renderBudgetSection(containerEl, s);
+		this.renderCacheSection(containerEl, s);
+		this.renderAuditSection(containerEl, s);
+
 		// ---- Muse Persona ----
 		this.renderPersonaSection(containerEl);
 
+		// ---- Profiles / Export ----
+		this.renderProfileSection(containerEl);
+
 		this.renderFooter(containerEl);
 	}
 
+	/** Key source dropdown, plus the variable / file reference and whether it resolved */
+	private renderKeySource(containerEl: HTMLElement, s: AiSettings): void {
+		const source = s.providers[s.provider]?.keySource ?? "stored";
+		new Setting(containerEl)
+			.setName(t.keySource)
+			.setDesc(t.keySourceDesc)
+			.addDropdown((dd) =>
+				dd
+					.addOption("stored", t.keySourceStored)
+					.addOption("env", t.keySourceEnv)
+					.addOption("file", t.keySourceFile)
+					.setValue(source)
+					.onChange(async (v) => {
+						this.ensureProvider(s.provider);
+						s.providers[s.provider].keySource = v as KeySource;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (source === "stored") return;
+
+		const setting = new Setting(containerEl).setName(source === "env" ? t.keyRefEnv : t.keyRefFile);
+		const showStatus = () => {
+			const resolved = resolveApiKey(s.providers[s.provider]);
+			setting.setDesc(
+				resolved.status === "ok" ? t.keyResolved
+					: resolved.status === "unavailable" ? t.keyUnavailable
+					: t.keyMissing(resolved.detail ?? ""),
+			);
+			setting.descEl.style.color = resolved.status === "ok" ? "var(--text-success)" : "var(--text-warning)";
+		};
+		setting.addText((text) =>
+			text
+				.setPlaceholder(source === "env" ? "OPENAI_API_KEY" : "~/.config/keys/openai.txt")
+				.setValue(s.providers[s.provider]?.keyRef || "")
+				.onChange(async (v) => {
+					this.ensureProvider(s.provider);
+					s.providers[s.provider].keyRef = v.trim();
+					await this.plugin.saveSettings();
+					showStatus();
+				})
+		);
+		showStatus();
+	}
+
+	private renderKeyVaultSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(t.keysHeading).setHeading();
+		const plugin = this.plugin;
+
+		if (plugin.keysLocked) {
+			let passphrase = "";
+			new Setting(containerEl)
+				.setName(t.keysUnlock)
+				.setDesc(t.keysUnlockDesc)
+				.addText((text) => {
+					text.setPlaceholder(t.keysPassphrase).onChange((v) => (passphrase = v));
+					text.inputEl.type = "password";
+				})
+				.addButton((btn) =>
+					btn
+						.setButtonText(t.keysUnlockBtn)
+						.setCta()
+						.onClick(async () => {
+							if (!(await plugin.unlockKeys(passphrase))) {
+								new Notice(t.keysWrongPassphrase);
+								return;
+							}
+							this.display();
+						})
+				);
+			return;
+		}
+
+		if (plugin.settings.keyVault) {
+			new Setting(containerEl)
+				.setName(t.keysLock)
+				.setDesc(t.keysLockDesc)
+				.addButton((btn) =>
+					btn.setButtonText(t.keysLockBtn).onClick(async () => {
+						await plugin.lockKeys();
+						this.display();
+					})
+				);
+		}
+
+		// Turn encryption on, or change the passphrase
+		let passphrase = "";
+		let confirm = "";
+		const hasVault = Boolean(plugin.settings.keyVault);
+		const setting = new Setting(containerEl)
+			.setName(hasVault ? t.keysChangePassphrase : t.keysEncrypt)
+			.setDesc(hasVault ? t.keysChangePassphraseDesc : t.keysEncryptDesc);
+		if (!hasVault) setting.descEl.style.color = "var(--text-warning)";
+		setting
+			.addText((text) => {
+				text.setPlaceholder(t.keysPassphrase).onChange((v) => (passphrase = v));
+				text.inputEl.type = "password";
+			})
+			.addText((text) => {
+				text.setPlaceholder(t.keysConfirm).onChange((v) => (confirm = v));
+				text.inputEl.type = "password";
+			})
+			.addButton((btn) =>
+				btn.setButtonText(hasVault ? t.keysChangeBtn : t.keysEncryptBtn).onClick(async () => {
+					if (!passphrase) return;
+					if (passphrase !== confirm) {
+						new Notice(t.keysMismatch);
+						return;
+					}
+					await plugin.setPassphrase(passphrase);
+					new Notice(t.keysSaved);
+					this.display();
+				})
+			);
+	}
+
+	private renderMockSection(containerEl: HTMLElement, s: AiSettings): void {
+		const mock = s.mock;
+		new Setting(containerEl)
+			.setName(t.mockMode)
+			.setDesc(t.mockModeDesc)
+			.addDropdown((dd) =>
+				dd
+					.addOption("script", t.mockModeScript)
+					.addOption("record", t.mockModeRecord)
+					.addOption("replay", t.mockModeReplay)
+					.setValue(mock.mode)
+					.onChange(async (v) => {
+						mock.mode = v as MockMode;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (mock.mode === "script") {
+			mock.rules.forEach((rule, i) => {
+				new Setting(containerEl)
+					.addText((text) =>
+						text
+							.setPlaceholder(t.mockPatternPlaceholder)
+							.setValue(rule.pattern)
+							.onChange(async (v) => {
+								rule.pattern = v;
+								await this.plugin.saveSettings();
+							})
+					)
+					.addTextArea((text) => {
+						text
+							.setPlaceholder(t.mockResponsePlaceholder)
+							.setValue(rule.response)
+							.onChange(async (v) => {
+								rule.response = v;
+								await this.plugin.saveSettings();
+							});
+						text.inputEl.rows = 3;
+					})
+					.addExtraButton((btn) =>
+						btn
+							.setIcon("trash")
+							.setTooltip(t.mockRemoveRule)
+							.onClick(async () => {
+								mock.rules.splice(i, 1);
+								await this.plugin.saveSettings();
+								this.display();
+							})
+					);
+			});
+
+			new Setting(containerEl).addButton((btn) =>
+				btn.setButtonText(t.mockAddRule).onClick(async () => {
+					mock.rules.push({ pattern: "", response: "" });
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+			new Setting(containerEl)
+				.setName(t.mockDefaultResponse)
+				.setDesc(t.mockDefaultResponseDesc)
+				.addTextArea((text) =>
+					text.setValue(mock.defaultResponse).onChange(async (v) => {
+						mock.defaultResponse = v;
+						await this.plugin.saveSettings();
+					})
+				);
+			return;
+		}
+
+		if (mock.mode === "record") {
+			new Setting(containerEl)
+				.setName(t.mockRecordProvider)
+				.setDesc(t.mockRecordProviderDesc)
+				.addDropdown((dd) => {
+					for (const p of PROVIDERS) {
+						if (p.id !== "mock") dd.addOption(p.id, p.name);
+					}
+					dd.setValue(mock.recordProvider);
+					dd.onChange(async (v) => {
+						mock.recordProvider = v as AiProvider;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName(t.mockFixtureFile)
+			.setDesc(t.mockFixtureFileDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_MOCK_SETTINGS.fixtureFile)
+					.setValue(mock.fixtureFile)
+					.onChange(async (v) => {
+						mock.fixtureFile = v.trim() || DEFAULT_MOCK_SETTINGS.fixtureFile;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private renderRetrySection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl).setName(t.retryHeading).setHeading();
+
+		new Setting(containerEl)
+			.setName(t.retryAttempts)
+			.setDesc(t.retryAttemptsDesc)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 6, 1)
+					.setValue(s.retry.maxAttempts)
+					.setDynamicTooltip()
+					.onChange(async (v) => {
+						s.retry.maxAttempts = v;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.retryBaseDelay)
+			.setDesc(t.retryBaseDelayDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_RETRY_POLICY.baseDelayMs / 1000))
+					.setValue(String(s.retry.baseDelayMs / 1000))
+					.onChange(async (v) => {
+						const sec = parseFloat(v);
+						s.retry.baseDelayMs = sec > 0 ? sec * 1000 : DEFAULT_RETRY_POLICY.baseDelayMs;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.retryMaxDelay)
+			.setDesc(t.retryMaxDelayDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_RETRY_POLICY.maxDelayMs / 1000))
+					.setValue(String(s.retry.maxDelayMs / 1000))
+					.onChange(async (v) => {
+						const sec = parseFloat(v);
+						s.retry.maxDelayMs = sec > 0 ? sec * 1000 : DEFAULT_RETRY_POLICY.maxDelayMs;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.retryJitter)
+			.setDesc(t.retryJitterDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(s.retry.jitter).onChange(async (v) => {
+					s.retry.jitter = v;
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private renderFallbackSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl)
+			.setName(t.fallbackHeading)
+			.setDesc(t.fallbackDesc)
+			.setHeading();
+
+		s.fallbacks.forEach((entry, i) => {
+			const info = PROVIDERS.find((p) => p.id === entry.provider) || PROVIDERS[0];
+			const setting = new Setting(containerEl)
+				.setName(t.fallbackEntry(i + 1))
+				.addDropdown((dd) => {
+					for (const p of PROVIDERS) {
+						dd.addOption(p.id, p.name);
+					}
+					dd.setValue(entry.provider);
+					dd.onChange(async (v) => {
+						entry.provider = v as AiProvider;
+						entry.model = "";
+						await this.plugin.saveSettings();
+						this.display();
+					});
+				})
+				.addText((text) =>
+					text
+						.setPlaceholder(getModel(s, entry.provider))
+						.setValue(entry.model)
+						.onChange(async (v) => {
+							entry.model = v.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip(t.fallbackMoveUp)
+						.setDisabled(i === 0)
+						.onClick(async () => {
+							if (i === 0) return;
+							[s.fallbacks[i - 1], s.fallbacks[i]] = [s.fallbacks[i], s.fallbacks[i - 1]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip(t.fallbackMoveDown)
+						.setDisabled(i === s.fallbacks.length - 1)
+						.onClick(async () => {
+							if (i === s.fallbacks.length - 1) return;
+							[s.fallbacks[i], s.fallbacks[i + 1]] = [s.fallbacks[i + 1], s.fallbacks[i]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip(t.fallbackRemove)
+						.onClick(async () => {
+							s.fallbacks.splice(i, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+
+			// Fallbacks reuse the key stored for that provider
+			if (info.needsApiKey && !getApiKey(s, entry.provider)) {
+				setting.setDesc(t.fallbackMissingKey(info.name));
+				setting.descEl.style.color = "var(--text-warning)";
+			}
+		});
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText(t.fallbackAdd).onClick(async () => {
+				s.fallbacks.push({ provider: "ollama", model: "" });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private renderUsageSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(t.usageHeading)
+			.setDesc(t.usageDesc)
+			.setHeading();
+
+		const ledger = this.plugin.usage;
+		if (ledger.records.length === 0) {
+			containerEl.createEl("p", { text: t.usageEmpty, cls: "setting-item-description" });
+			return;
+		}
+
+		// ---- Daily bar chart: output stacked on input ----
+		const days = Array.from({ length: USAGE_CHART_DAYS }, (_, i) => daysAgo(USAGE_CHART_DAYS - 1 - i));
+		const daily = days.map((date) => ({ date, totals: sumUsage(ledger.records.filter((r) => r.date === date)) }));
+		const peak = Math.max(1, ...daily.map((d) => d.totals.inputTokens + d.totals.outputTokens));
+
+		const chart = containerEl.createDiv();
+		chart.style.display = "flex";
+		chart.style.alignItems = "flex-end";
+		chart.style.gap = "3px";
+		chart.style.height = "80px";
+		chart.style.margin = "8px 0 2px";
+		for (const { date, totals } of daily) {
+			const column = chart.createDiv();
+			column.style.flex = "1";
+			column.style.display = "flex";
+			column.style.flexDirection = "column";
+			column.style.justifyContent = "flex-end";
+			column.style.height = "100%";
+			column.title = t.usageDayTooltip(
+				date, formatTokens(totals.inputTokens), formatTokens(totals.outputTokens), formatCost(totals.cost));
+
+			const output = column.createDiv();
+			output.style.height = `${(totals.outputTokens / peak) * 100}%`;
+			output.style.background = "var(--interactive-accent)";
+			const input = column.createDiv();
+			input.style.height = `${(totals.inputTokens / peak) * 100}%`;
+			input.style.background = "var(--interactive-accent)";
+			input.style.opacity = "0.45";
+		}
+		const axis = containerEl.createDiv({ cls: "setting-item-description" });
+		axis.style.display = "flex";
+		axis.style.justifyContent = "space-between";
+		axis.createSpan({ text: days[0] });
+		axis.createSpan({ text: days[days.length - 1] });
+
+		// ---- Breakdown ----
+		const recent = ledger.since(daysAgo(USAGE_SUMMARY_DAYS - 1));
+		const renderGroups = (heading: string, groups: Map<string, UsageRecord[]>) => {
+			new Setting(containerEl).setName(heading).setHeading();
+			for (const [name, records] of groups) {
+				const totals = sumUsage(records);
+				new Setting(containerEl)
+					.setName(name)
+					.setDesc(t.usageSummary(
+						totals.requests,
+						formatTokens(totals.inputTokens),
+						formatTokens(totals.outputTokens),
+						formatCost(totals.cost),
+					));
+			}
+		};
+		renderGroups(t.usageByConsumer, groupRecords(recent, (r) => r.consumer || t.usageUnknownConsumer));
+		renderGroups(t.usageByModel, groupRecords(recent, (r) => {
+			const info = PROVIDERS.find((p) => p.id === r.provider);
+			return `${info?.name ?? r.provider} / ${r.model}`;
+		}));
+
+		new Setting(containerEl)
+			.setName(t.usageClear)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t.usageClearBtn)
+					.setWarning()
+					.onClick(async () => {
+						await ledger.clear();
+						new Notice(t.usageCleared);
+						this.display();
+					})
+			);
+	}
+
+	private renderBudgetSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl)
+			.setName(t.budgetHeading)
+			.setDesc(t.budgetDesc)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t.budgetScope)
+			.addDropdown((dd) => {
+				dd.addOption("", t.budgetAllProviders);
+				for (const p of PROVIDERS) {
+					dd.addOption(p.id, p.name);
+				}
+				dd.setValue(this.budgetScope);
+				dd.onChange((v) => {
+					this.budgetScope = v as AiProvider | "";
+					this.display();
+				});
+			});
+
+		const provider = this.budgetScope || undefined;
+		const scope = provider ? normalizeBudgetScope(s.budget.providers[provider]) : s.budget.global;
+		const periods: [BudgetPeriod, string][] = [["daily", t.budgetDaily], ["monthly", t.budgetMonthly]];
+		const metrics: [BudgetMetric, string][] = [["requests", t.budgetRequests], ["tokens", t.budgetTokens], ["cost", "USD"]];
+
+		for (const [period, label] of periods) {
+			const used = (metric: BudgetMetric) => measureUsage(this.plugin.usage, period, metric, provider);
+			const usedText = (metric: BudgetMetric) => formatMeterValue(metric, used(metric));
+
+			const setting = new Setting(containerEl)
+				.setName(label)
+				.setDesc(t.budgetLimitDesc(usedText("requests"), usedText("tokens"), usedText("cost")));
+			for (const [metric, placeholder] of metrics) {
+				setting.addText((text) => {
+					text
+						.setPlaceholder(placeholder)
+						.setValue(scope[period][metric] ? String(scope[period][metric]) : "")
+						.onChange(async (v) => {
+							const n = parseFloat(v);
+							const limits: BudgetLimits = { ...scope[period], [metric]: n > 0 ? n : 0 };
+							scope[period] = limits;
+							if (provider) s.budget.providers[provider] = scope;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.style.width = "6em";
+				});
+			}
+			const reached = metrics.some(([metric]) => scope[period][metric] > 0 && used(metric) >= scope[period][metric]);
+			if (reached) setting.descEl.style.color = "var(--text-warning)";
+		}
+
+		new Setting(containerEl)
+			.setName(t.budgetWarnAt)
+			.setDesc(t.budgetWarnAtDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("80, 95")
+					.setValue(s.budget.warnThresholds.join(", "))
+					.onChange(async (v) => {
+						s.budget.warnThresholds = v.split(",")
+							.map((part) => parseFloat(part))
+							.filter((n) => n > 0 && n <= 100);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.budgetOllamaFallback)
+			.setDesc(t.budgetOllamaFallbackDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(s.budget.fallbackToOllama).onChange(async (v) => {
+					s.budget.fallbackToOllama = v;
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private renderCacheSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl).setName(t.cacheHeading).setHeading();
+
+		new Setting(containerEl)
+			.setName(t.cacheEnable)
+			.setDesc(t.cacheEnableDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(s.cache.enabled).onChange(async (v) => {
+					s.cache.enabled = v;
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		if (!s.cache.enabled) return;
+
+		new Setting(containerEl)
+			.setName(t.cacheTtl)
+			.setDesc(t.cacheTtlDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_CACHE_SETTINGS.ttlHours))
+					.setValue(String(s.cache.ttlHours))
+					.onChange(async (v) => {
+						const hours = parseFloat(v);
+						s.cache.ttlHours = hours > 0 ? hours : DEFAULT_CACHE_SETTINGS.ttlHours;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.cacheMaxSize)
+			.setDesc(t.cacheMaxSizeDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_CACHE_SETTINGS.maxSizeMb))
+					.setValue(String(s.cache.maxSizeMb))
+					.onChange(async (v) => {
+						const mb = parseFloat(v);
+						s.cache.maxSizeMb = mb > 0 ? mb : DEFAULT_CACHE_SETTINGS.maxSizeMb;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const cache = this.plugin.cache;
+		const rate = cache.hitRate === undefined ? "\u2014" : `${Math.round(cache.hitRate * 100)}%`;
+		new Setting(containerEl)
+			.setName(t.cacheClear)
+			.setDesc(t.cacheStats(cache.count, `${(cache.size / 1000).toFixed(1)} KB`, rate, cache.hits, cache.misses))
+			.addButton((btn) =>
+				btn
+					.setButtonText(t.cacheClearBtn)
+					.setWarning()
+					.onClick(async () => {
+						await cache.clear();
+						new Notice(t.cacheCleared);
+						this.display();
+					})
+			);
+	}
+
+	private renderAuditSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl).setName(t.auditHeading).setHeading();
+
+		new Setting(containerEl)
+			.setName(t.auditEnable)
+			.setDesc(t.auditEnableDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(s.audit.enabled).onChange(async (v) => {
+					s.audit.enabled = v;
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		if (!s.audit.enabled) return;
+
+		new Setting(containerEl)
+			.setName(t.auditFolder)
+			.setDesc(t.auditFolderDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_AUDIT_SETTINGS.folder)
+					.setValue(s.audit.folder)
+					.onChange(async (v) => {
+						s.audit.folder = v.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.auditFormat)
+			.addDropdown((dd) =>
+				dd
+					.addOption("markdown", "Markdown")
+					.addOption("jsonl", "JSONL")
+					.setValue(s.audit.format)
+					.onChange(async (v) => {
+						s.audit.format = v as AuditFormat;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.auditRetention)
+			.setDesc(t.auditRetentionDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_AUDIT_SETTINGS.retentionDays))
+					.setValue(String(s.audit.retentionDays))
+					.onChange(async (v) => {
+						const days = parseInt(v, 10);
+						s.audit.retentionDays = days >= 0 ? days : DEFAULT_AUDIT_SETTINGS.retentionDays;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private renderTaskRouteSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl)
+			.setName(t.taskHeading)
+			.setDesc(t.taskDesc)
+			.setHeading();
+
+		s.taskRoutes.forEach((route, i) => {
+			const info = PROVIDERS.find((p) => p.id === route.provider) || PROVIDERS[0];
+			const setting = new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder(t.taskTagPlaceholder)
+						.setValue(route.task)
+						.onChange(async (v) => {
+							route.task = v.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dd) => {
+					for (const p of PROVIDERS) {
+						dd.addOption(p.id, p.name);
+					}
+					dd.setValue(route.provider);
+					dd.onChange(async (v) => {
+						route.provider = v as AiProvider;
+						route.model = "";
+						await this.plugin.saveSettings();
+						this.display();
+					});
+				})
+				.addText((text) =>
+					text
+						.setPlaceholder(getModel(s, route.provider))
+						.setValue(route.model)
+						.onChange(async (v) => {
+							route.model = v.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip(t.taskRemove)
+						.onClick(async () => {
+							s.taskRoutes.splice(i, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+
+			if (info.needsApiKey && !getApiKey(s, route.provider)) {
+				setting.setDesc(t.taskMissingKey(info.name));
+				setting.descEl.style.color = "var(--text-warning)";
+			}
+		});
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText(t.taskAdd).onClick(async () => {
+				s.taskRoutes.push({ task: "", provider: s.provider, model: "" });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private renderQueueSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl)
+			.setName(t.queueHeading)
+			.setDesc(t.queueDesc)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t.queueMaxConcurrent)
+			.setDesc(t.queueMaxConcurrentDesc)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(s.scheduler.maxConcurrent)
+					.setDynamicTooltip()
+					.onChange(async (v) => {
+						s.scheduler.maxConcurrent = v;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const fields: [keyof ProviderRateLimits, string][] = [["concurrency", t.queueConcurrency], ["rpm", "RPM"], ["tpm", "TPM"]];
+		for (const p of PROVIDERS) {
+			const setting = new Setting(containerEl).setName(p.name).setDesc(t.queueProviderDesc);
+			for (const [field, placeholder] of fields) {
+				setting.addText((text) => {
+					const value = s.scheduler.providers[p.id]?.[field];
+					text
+						.setPlaceholder(placeholder)
+						.setValue(value ? String(value) : "")
+						.onChange(async (v) => {
+							const n = parseInt(v, 10);
+							const limits: ProviderRateLimits = { concurrency: 0, rpm: 0, tpm: 0, ...s.scheduler.providers[p.id] };
+							limits[field] = n > 0 ? n : 0;
+							s.scheduler.providers[p.id] = limits;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.style.width = "6em";
+				});
+			}
+		}
+	}
+
+	private renderParamPresetSection(containerEl: HTMLElement, s: AiSettings): void {
+		new Setting(containerEl)
+			.setName(t.paramHeading)
+			.setDesc(t.paramDesc)
+			.setHeading();
+
+		s.paramPresets.forEach((preset, i) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder(t.paramNamePlaceholder)
+						.setValue(preset.name)
+						.onChange(async (v) => {
+							preset.name = v.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addTextArea((text) => {
+					text
+						.setPlaceholder("temperature: 0.7\ntopP: 0.9\nstop: ###, END")
+						.setValue(formatParamLines(preset))
+						.onChange(async (v) => {
+							for (const key of PARAM_KEYS) delete preset[key];
+							Object.assign(preset, parseParamLines(v));
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				})
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip(t.paramRemove)
+						.onClick(async () => {
+							s.paramPresets.splice(i, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText(t.paramAdd).onClick(async () => {
+				s.paramPresets.push({ name: "" });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
 	// ============================================================
 	// Guide Section (導き手)
 	// ============================================================
@@ -189,21 +1119,20 @@ export class MwabSettingTab extends PluginSettingTab {
 		const presetIds = getPresetIds();
 		const currentId = s.persona.selected;
 		const isCustom = currentId === "custom";
+		const isNote = isNotePersonaId(currentId);
+		let guideDropdown: DropdownComponent | undefined;
 
 		// Guide selector dropdown with description underneath
 		new Setting(containerEl)
 			.setName(t.guideSelect)
 			.setDesc(t.guideAppliesAll)
 			.addDropdown((dd) => {
-				for (const id of presetIds) {
-					const preset = getPreset(id);
-					dd.addOption(id, preset.name);
-				}
-				dd.addOption("custom", t.guideCustom);
-				dd.setValue(currentId);
+				guideDropdown = dd;
+				this.fillGuideOptions(dd);
 
-				// Sync default to data.json if not yet saved
-				if (!currentId || (!isCustom && !presetIds.includes(currentId))) {
+				// Sync default to data.json if not yet saved. A missing note is
+				// kept: it may be renamed back, or the folder not indexed yet.
+				if (!currentId || (!isCustom && !isNote && !presetIds.includes(currentId))) {
 					s.persona.selected = "default";
 					dd.setValue("default");
 					void this.plugin.saveSettings();
@@ -217,7 +1146,7 @@ export class MwabSettingTab extends PluginSettingTab {
 			});
 
 		// Show tone preview (only if tone is non-empty and not custom)
-		const activePersona = resolvePersona(s.persona);
+		const activePersona = resolvePersona(s.persona, this.plugin.personas);
 		if (!isCustom && activePersona.tone) {
 			const previewEl = containerEl.createDiv({ cls: "setting-item-description" });
 			previewEl.style.marginTop = "4px";
@@ -227,10 +1156,148 @@ export class MwabSettingTab extends PluginSettingTab {
 			previewEl.setText(activePersona.tone);
 		}
 
+		// Note personas are edited in their note
+		if (isNote && this.plugin.personas.get(currentId)) {
+			new Setting(containerEl)
+				.setName(t.personaNoteOpen)
+				.addButton((btn) =>
+					btn.setButtonText(t.personaNoteOpenBtn).onClick(async () => {
+						await this.app.workspace.openLinkText(currentId.slice(NOTE_PERSONA_PREFIX.length), "", true);
+					})
+				);
+		}
+
 		// Customization fields
 		if (isCustom) {
 			this.renderPersonaCustomFields(containerEl, s);
 		}
+
+		const folderSetting = new Setting(containerEl)
+			.setName(t.personaFolder)
+			.setDesc(t.personaFolderDesc(this.plugin.personas.list().length))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_PERSONA_SETTINGS.folder)
+					.setValue(s.persona.folder)
+					.onChange(async (v) => {
+						s.persona.folder = v.trim();
+						await this.plugin.saveSettings();
+						await this.plugin.personas.reload();
+						folderSetting.setDesc(t.personaFolderDesc(this.plugin.personas.list().length));
+						if (guideDropdown) this.fillGuideOptions(guideDropdown);
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t.personaNoteNew).onClick(async () => {
+					if (!s.persona.folder) {
+						new Notice(t.personaFolderEmpty);
+						return;
+					}
+					try {
+						const file = await this.plugin.personas.create(t.personaNoteNewName);
+						await this.app.workspace.getLeaf(true).openFile(file);
+					} catch (e: unknown) {
+						new Notice(`${t.personaNoteNewFailed}: ${e instanceof Error ? e.message : String(e)}`);
+					}
+				})
+			);
+
+		this.renderAuditionPanel(containerEl, s);
+	}
+
+	/** Every guide's reply to one story snippet, side by side */
+	private renderAuditionPanel(containerEl: HTMLElement, s: AiSettings): void {
+		const details = containerEl.createEl("details");
+		details.open = this.auditionOpen;
+		details.style.marginBottom = "12px";
+		details.addEventListener("toggle", () => { this.auditionOpen = details.open; });
+		details.createEl("summary", { text: t.auditionHeading });
+
+		const personas = [
+			...getPresetIds().map((id) => getPreset(id)),
+			...this.plugin.personas.list(),
+			s.persona.custom,
+		];
+		const snippet = () => this.auditionSnippet.trim() || t.auditionSnippet;
+
+		new Setting(details)
+			.setName(t.auditionSnippetName)
+			.setDesc(t.auditionDesc)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder(t.auditionSnippet)
+					.setValue(this.auditionSnippet)
+					.onChange((v) => { this.auditionSnippet = v; });
+				text.inputEl.rows = 3;
+				text.inputEl.style.width = "100%";
+			})
+			.addButton((btn) =>
+				btn
+					.setButtonText(t.auditionRun)
+					.setCta()
+					.onClick(() => {
+						cards.forEach((card, i) => showReply(card, this.plugin.audition.audition(s, personas[i], snippet())));
+					})
+			);
+
+		const grid = details.createDiv();
+		grid.style.display = "grid";
+		grid.style.gridTemplateColumns = "repeat(auto-fill, minmax(220px, 1fr))";
+		grid.style.gap = "8px";
+
+		const showReply = (card: AuditionCard, reply: Promise<AuditionReply> | undefined) => {
+			card.reply = reply;
+			if (!reply) return;
+			card.body.setText(t.auditionRunning);
+			card.body.style.color = "var(--text-muted)";
+			card.meta.setText("");
+			void reply.then((r) => {
+				// A newer run replaced this one
+				if (card.reply !== reply) return;
+				const route = [r.provider && (PROVIDERS.find((p) => p.id === r.provider)?.name ?? r.provider), r.model].filter((v) => v).join(" / ");
+				card.meta.setText(route ? `${route} \u00b7 ${t.auditionLatency(r.latencyMs)}` : t.auditionLatency(r.latencyMs));
+				card.body.style.color = r.ok ? "" : "var(--text-error)";
+				card.body.setText(r.ok ? r.text.trim() : `${r.error ?? "Unknown error"}\n${getErrorHint(r.errorCode)}`.trim());
+			});
+		};
+
+		const cards = personas.map((persona) => {
+			const cardEl = grid.createDiv();
+			cardEl.style.border = "1px solid var(--background-modifier-border)";
+			cardEl.style.borderRadius = "6px";
+			cardEl.style.padding = "8px";
+			cardEl.style.fontSize = "0.9em";
+			const header = cardEl.createDiv();
+			header.style.display = "flex";
+			header.style.justifyContent = "space-between";
+			header.style.flexWrap = "wrap";
+			header.style.gap = "4px";
+			header.style.marginBottom = "4px";
+			header.createEl("strong", { text: persona.id === "custom" ? `${persona.name} (${t.guideCustom})` : persona.name });
+			const card: AuditionCard = { meta: header.createSpan(), body: cardEl.createDiv() };
+			card.meta.style.color = "var(--text-muted)";
+			card.body.style.whiteSpace = "pre-wrap";
+			showReply(card, this.plugin.audition.cached(s, persona, snippet()));
+			return card;
+		});
+	}
+
+	/** Presets, then persona notes, then the custom persona */
+	private fillGuideOptions(dd: DropdownComponent): void {
+		dd.selectEl.empty();
+		for (const id of getPresetIds()) {
+			dd.addOption(id, getPreset(id).name);
+		}
+		for (const persona of this.plugin.personas.list()) {
+			dd.addOption(persona.id, `${persona.name} (${t.personaNoteTag})`);
+		}
+		dd.addOption("custom", t.guideCustom);
+		const selected = this.plugin.settings.persona.selected;
+		if (isNotePersonaId(selected) && !this.plugin.personas.get(selected)) {
+			const name = selected.slice(NOTE_PERSONA_PREFIX.length).replace(/^.*\//, "").replace(/\.md$/, "");
+			dd.addOption(selected, `${name} (${t.personaNoteMissing})`);
+		}
+		dd.setValue(selected);
 	}
 
 	private renderPersonaCustomFields(containerEl: HTMLElement, s: AiSettings): void {
@@ -245,6 +1312,7 @@ export class MwabSettingTab extends PluginSettingTab {
 					.onChange(async (v) => {
 						c.name = v.trim() || "Muse";
 						await this.plugin.saveSettings();
+						refreshPreview();
 					})
 			);
 
@@ -257,6 +1325,7 @@ export class MwabSettingTab extends PluginSettingTab {
 					.onChange(async (v) => {
 						c.firstPerson = v.trim();
 						await this.plugin.saveSettings();
+						refreshPreview();
 					})
 			);
 
@@ -269,6 +1338,7 @@ export class MwabSettingTab extends PluginSettingTab {
 					.onChange(async (v) => {
 						c.speechStyle = v.trim();
 						await this.plugin.saveSettings();
+						refreshPreview();
 					})
 			);
 
@@ -284,10 +1354,68 @@ export class MwabSettingTab extends PluginSettingTab {
 					.onChange(async (v) => {
 						c.tone = v.trim();
 						await this.plugin.saveSettings();
+						refreshPreview();
 					});
 				text.inputEl.rows = 3;
 				text.inputEl.style.width = "100%";
 			});
+
+		this.renderPersonaRules(containerEl, s, () => refreshPreview());
+
+		// Assembled prompt, as consumer plugins receive it
+		const details = containerEl.createEl("details");
+		details.style.marginBottom = "12px";
+		details.createEl("summary", { text: t.guidePromptPreview });
+		const previewEl = details.createEl("pre");
+		previewEl.style.whiteSpace = "pre-wrap";
+		previewEl.style.fontSize = "var(--font-ui-smaller)";
+		const refreshPreview = () => previewEl.setText(buildPersonaPrompt(c));
+		refreshPreview();
+	}
+
+	/** Detailed rule sections of the custom persona, one list item per line */
+	private renderPersonaRules(containerEl: HTMLElement, s: AiSettings, onEdit: () => void): void {
+		const c = s.persona.custom;
+		const rules = (c.rules ??= emptyPersonaRules());
+		let startFrom = "default";
+
+		new Setting(containerEl)
+			.setName(t.guideStartFrom)
+			.setDesc(t.guideStartFromDesc)
+			.addDropdown((dd) => {
+				for (const id of getPresetIds()) dd.addOption(id, getPreset(id).name);
+				dd.setValue(startFrom).onChange((v) => { startFrom = v; });
+			})
+			.addButton((btn) =>
+				btn.setButtonText(t.guideStartFromBtn).onClick(async () => {
+					s.persona.custom = { ...getPreset(startFrom), id: "custom", rules: getPresetRules(startFrom) };
+					await this.plugin.saveSettings();
+					new Notice(t.guideStartFromDone(getPreset(startFrom).name));
+					this.display();
+				})
+			);
+
+		const textArea = (name: string, desc: string, value: string, rows: number, save: (v: string) => void) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addTextArea((text) => {
+					text.setValue(value).onChange(async (v) => {
+						save(v);
+						await this.plugin.saveSettings();
+						onEdit();
+					});
+					text.inputEl.rows = rows;
+					text.inputEl.style.width = "100%";
+				});
+		};
+		const lines = (v: string) => v.split("\n").map((line) => line.trim()).filter((line) => line);
+
+		textArea(t.guideIntro, t.guideIntroDesc, rules.intro, 3, (v) => { rules.intro = v.trim(); });
+		textArea(t.guideToneRules, t.guideOnePerLine, rules.toneRules.join("\n"), 4, (v) => { rules.toneRules = lines(v); });
+		textArea(t.guideDeepening, t.guideDeepeningDesc, rules.deepening, 2, (v) => { rules.deepening = v.trim(); });
+		textArea(t.guideGoodExamples, t.guideOnePerLine, rules.goodExamples.join("\n"), 3, (v) => { rules.goodExamples = lines(v); });
+		textArea(t.guideForbidden, t.guideForbiddenDesc, rules.forbidden.join("\n"), 3, (v) => { rules.forbidden = lines(v); });
 	}
 
 	/** Render Ollama model selector as dropdown */
@@ -372,6 +1500,55 @@ export class MwabSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * Render the OpenAI-compatible model selector: a dropdown from /models
+	 * when the server lists them, otherwise a free-text field.
+	 */
+	private async renderCompatibleModelSelector(containerEl: HTMLElement, s: AiSettings): Promise<void> {
+		const config = s.providers["openai-compatible"];
+		const currentModel = config?.model || "";
+		const models = config?.baseUrl
+			? await listOpenAiCompatibleModels(config.baseUrl, getApiKey(s, "openai-compatible"), config.extraHeaders)
+			: [];
+
+		if (models.length === 0) {
+			new Setting(containerEl)
+				.setName(t.model)
+				.setDesc(t.compatibleNoModels)
+				.addText((text) =>
+					text
+						.setValue(currentModel)
+						.onChange(async (v) => {
+							this.ensureProvider("openai-compatible");
+							s.providers["openai-compatible"].model = v.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+			return;
+		}
+
+		new Setting(containerEl).setName(t.model).addDropdown((dd) => {
+			for (const m of models) {
+				dd.addOption(m, m);
+			}
+			const effectiveModel = models.includes(currentModel) ? currentModel : models[0];
+			dd.setValue(effectiveModel);
+
+			// Sync to data.json if displayed model differs from stored value
+			if (effectiveModel !== currentModel) {
+				this.ensureProvider("openai-compatible");
+				s.providers["openai-compatible"].model = effectiveModel;
+				void this.plugin.saveSettings();
+			}
+
+			dd.onChange(async (v) => {
+				this.ensureProvider("openai-compatible");
+				s.providers["openai-compatible"].model = v;
+				await this.plugin.saveSettings();
+			});
+		});
+	}
+
 	/** Show hint if no qwen2.5 model is installed */
 	private renderOllamaRecommendHint(containerEl: HTMLElement, models: OllamaModelEntry[]): void {
 		const hasQwen = models.some((m) => m.name.startsWith("qwen"));
@@ -437,6 +1614,160 @@ export class MwabSettingTab extends PluginSettingTab {
 		}
 	}
 
+	// ============================================================
+	// Profiles / Export / Import
+	// ============================================================
+
+	private renderProfileSection(containerEl: HTMLElement): void {
+		const s = this.plugin.settings;
+		new Setting(containerEl)
+			.setName(t.profileHeading)
+			.setDesc(t.profileDesc)
+			.setHeading();
+
+		if (s.profiles.length > 0) {
+			let selected = s.profiles.some((p) => p.name === s.activeProfile) ? s.activeProfile : s.profiles[0].name;
+			new Setting(containerEl)
+				.setName(t.profileSwitch)
+				.setDesc(s.activeProfile ? t.profileActive(s.activeProfile) : "")
+				.addDropdown((dd) => {
+					for (const p of s.profiles) {
+						dd.addOption(p.name, p.name);
+					}
+					dd.setValue(selected);
+					dd.onChange((v) => (selected = v));
+				})
+				.addButton((btn) =>
+					btn.setButtonText(t.profileSwitchBtn).onClick(async () => {
+						const profile = s.profiles.find((p) => p.name === selected);
+						if (!profile) return;
+						await this.applySettings(applyImport(s, profile.settings, "replace"), profile.name);
+						new Notice(t.profileSwitched(profile.name));
+					})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip(t.profileDelete)
+						.onClick(async () => {
+							s.profiles = s.profiles.filter((p) => p.name !== selected);
+							if (s.activeProfile === selected) s.activeProfile = "";
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		}
+
+		let name = s.activeProfile;
+		new Setting(containerEl)
+			.setName(t.profileSave)
+			.setDesc(t.profileSaveDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(t.profileNamePlaceholder)
+					.setValue(name)
+					.onChange((v) => (name = v.trim()))
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t.profileSaveBtn).onClick(async () => {
+					if (!name) return;
+					s.profiles = [...s.profiles.filter((p) => p.name !== name), { name, settings: snapshotSettings(s) }];
+					s.activeProfile = name;
+					await this.plugin.saveSettings();
+					new Notice(t.profileSaved(name));
+					this.display();
+				})
+			);
+
+		let path = EXPORT_PATH;
+		new Setting(containerEl)
+			.setName(t.exportFile)
+			.setDesc(t.exportFileDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(EXPORT_PATH)
+					.setValue(path)
+					.onChange((v) => (path = normalizePath(v.trim() || EXPORT_PATH)))
+			);
+
+		new Setting(containerEl)
+			.setName(t.exportHeading)
+			.setDesc(t.exportDesc)
+			.addButton((btn) =>
+				btn.setButtonText(t.exportCopy).onClick(async () => {
+					try {
+						await navigator.clipboard.writeText(exportSettings(s));
+						new Notice(t.exportCopied);
+					} catch (e: unknown) {
+						new Notice(t.exportFailed(e instanceof Error ? e.message : String(e)));
+					}
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t.exportSave).onClick(async () => {
+					try {
+						await this.app.vault.adapter.write(path, exportSettings(s));
+						new Notice(t.exportSaved(path));
+					} catch (e: unknown) {
+						new Notice(t.exportFailed(e instanceof Error ? e.message : String(e)));
+					}
+				})
+			);
+
+		let mode: ImportMode = "merge";
+		const runImport = async (text: string) => {
+			const parsed = parseSettingsImport(text);
+			if (!parsed.ok) {
+				new Notice(t.importFailed(parsed.error));
+				return;
+			}
+			await this.applySettings(applyImport(s, parsed.settings, mode), "");
+			new Notice(t.importDone);
+		};
+		new Setting(containerEl)
+			.setName(t.importHeading)
+			.setDesc(t.importDesc)
+			.addDropdown((dd) =>
+				dd
+					.addOption("merge", t.importMerge)
+					.addOption("replace", t.importReplace)
+					.setValue(mode)
+					.onChange((v) => (mode = v as ImportMode))
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t.importClipboard).onClick(async () => {
+					try {
+						await runImport(await navigator.clipboard.readText());
+					} catch (e: unknown) {
+						new Notice(t.importFailed(e instanceof Error ? e.message : String(e)));
+					}
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t.importFile).onClick(async () => {
+					try {
+						if (!(await this.app.vault.adapter.exists(path))) {
+							new Notice(t.importFailed(`${path} not found`));
+							return;
+						}
+						await runImport(await this.app.vault.adapter.read(path));
+					} catch (e: unknown) {
+						new Notice(t.importFailed(e instanceof Error ? e.message : String(e)));
+					}
+				})
+			);
+	}
+
+	/** Replace the plugin's settings (after an import or profile switch) and redraw */
+	private async applySettings(next: AiSettings, activeProfile: string): Promise<void> {
+		next.activeProfile = activeProfile;
+		this.plugin.settings = next;
+		await this.plugin.saveSettings();
+		// The persona folder may have changed
+		await this.plugin.personas.reload();
+		this.display();
+	}
+
 	private renderFooter(containerEl: HTMLElement): void {
 		// ---- Reset all settings ----
 		containerEl.createEl("hr");
@@ -449,8 +1780,7 @@ export class MwabSettingTab extends PluginSettingTab {
 					.setButtonText(t.resetBtn)
 					.setWarning()
 					.onClick(async () => {
-						this.plugin.settings = JSON.parse(JSON.stringify(DEFAULT_AI_SETTINGS));
-						await this.plugin.saveSettings();
+						await this.plugin.resetSettings();
 						this.display();
 					})
 			);
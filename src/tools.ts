@@ -0,0 +1,69 @@
+import type { AiTool, AiToolCall } from "./types";
+
+// ============================================================
+// Tool calling
+// The model↔tool loop is provider-neutral: each round's calls and
+// results are kept as a ToolExchange, and every provider function
+// serializes the exchanges into its own wire format.
+// ============================================================
+
+/** Default cap on model↔tool round trips per request */
+export const DEFAULT_MAX_TOOL_ROUNDS = 5;
+
+export interface ToolResult {
+	id: string;
+	name: string;
+	content: string;
+	isError?: boolean;
+}
+
+/** One round: the model's tool calls and what the handlers returned */
+export interface ToolExchange {
+	/** Text the model produced alongside its calls (often empty) */
+	text: string;
+	calls: AiToolCall[];
+	results: ToolResult[];
+}
+
+let callCounter = 0;
+
+/** Synthesize an ID for providers that do not assign one (Gemini, Ollama) */
+export function newToolCallId(): string {
+	callCounter++;
+	return `call_${Date.now().toString(36)}_${callCounter}`;
+}
+
+/**
+ * Run the handlers for the requested calls in parallel.
+ * Unknown tools and handler exceptions are reported back to the model
+ * as error results rather than failing the request.
+ */
+export async function executeToolCalls(tools: AiTool[], calls: AiToolCall[]): Promise<ToolResult[]> {
+	return Promise.all(calls.map(async (call): Promise<ToolResult> => {
+		const tool = tools.find((t) => t.name === call.name);
+		if (!tool) {
+			return { id: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true };
+		}
+		try {
+			const value = await tool.handler(call.arguments);
+			const content = typeof value === "string" ? value : JSON.stringify(value ?? null);
+			return { id: call.id, name: call.name, content };
+		} catch (e: unknown) {
+			const message = e instanceof Error ? e.message : String(e);
+			console.warn(`[MWAB] tool "${call.name}" failed:`, message);
+			return { id: call.id, name: call.name, content: `Error: ${message}`, isError: true };
+		}
+	}));
+}
+
+/** Parse a JSON arguments string (OpenAI), tolerating malformed output */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+	if (raw && typeof raw === "object") return raw as Record<string, unknown>;
+	if (typeof raw !== "string" || !raw.trim()) return {};
+	try {
+		const parsed = JSON.parse(raw);
+		return parsed && typeof parsed === "object" ? parsed : {};
+	} catch {
+		return {};
+	}
+}
@@ -1,11 +1,232 @@
 import { t } from "./i18n";
+import { resolveApiKey } from "./keysource";
 
-export type AiProvider = "openai" | "anthropic" | "gemini" | "ollama";
+export type AiProvider = "openai" | "anthropic" | "gemini" | "ollama" | "openai-compatible" | "mock";
+
+/**
+ * Where a provider's API key comes from. "env" and "file" keep the
+ * key out of the vault; they need the desktop app.
+ */
+export type KeySource = "stored" | "env" | "file";
 
 /** Per-provider credentials */
 export interface ProviderConfig {
+	/** Stored key; with an external source, the fallback when it does not resolve */
 	apiKey: string;
 	model: string;
+	/** Default "stored" */
+	keySource?: KeySource;
+	/** Environment variable name or absolute file path, per `keySource` */
+	keyRef?: string;
+	/** OpenAI-compatible only: API root including the version, e.g. http://localhost:1234/v1 */
+	baseUrl?: string;
+	/** OpenAI-compatible only: sent with every request (e.g. OpenRouter's HTTP-Referer) */
+	extraHeaders?: Record<string, string>;
+}
+
+/** Encrypted API keys, stored in data.json in place of plaintext ones */
+export interface KeyVault {
+	/** PBKDF2 salt, base64 */
+	salt: string;
+	/** A known value encrypted with the key, to check the passphrase */
+	check: string;
+	/** Provider → "iv.ciphertext" (base64) */
+	keys: Partial<Record<AiProvider, string>>;
+}
+
+/** A provider + model pair a request can be sent to */
+export interface AiRoute {
+	provider: AiProvider;
+	/** Empty = the provider's configured or default model */
+	model: string;
+}
+
+/** Sends requests tagged with `task` to a specific provider + model */
+export interface TaskRoute extends AiRoute {
+	/** Tag consumers put in `AiRequest.task`, e.g. "hint", "diagnosis", "rewrite" */
+	task: string;
+}
+
+/**
+ * Sampling parameters. Each provider accepts a subset; unsupported
+ * ones are dropped with a console warning.
+ */
+export interface GenerationParams {
+	temperature?: number;
+	topP?: number;
+	/** Not supported by OpenAI */
+	topK?: number;
+	/** Stop sequences */
+	stop?: string[];
+	/** Not supported by Anthropic */
+	presencePenalty?: number;
+	/** Not supported by Anthropic */
+	frequencyPenalty?: number;
+	/** Best-effort determinism; not supported by Anthropic */
+	seed?: number;
+}
+
+/** Named parameter set that consumers reference via `AiRequest.preset` */
+export interface ParamPreset extends GenerationParams {
+	name: string;
+}
+
+/** How transient failures (429 / 5xx / timeouts) are retried */
+export interface RetryPolicy {
+	/** Total attempts including the first (1 = never retry) */
+	maxAttempts: number;
+	/** Delay before the first retry; doubles on each further retry */
+	baseDelayMs: number;
+	/** Upper bound for a single wait; a longer Retry-After gives up instead */
+	maxDelayMs: number;
+	/** Randomize each delay to avoid synchronized retries */
+	jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 1000,
+	maxDelayMs: 30_000,
+	jitter: true,
+};
+
+/** Caps for one period; 0 = no limit */
+export interface BudgetLimits {
+	requests: number;
+	/** Input + output tokens */
+	tokens: number;
+	/** Estimated cost in USD */
+	cost: number;
+}
+
+export interface BudgetScope {
+	daily: BudgetLimits;
+	monthly: BudgetLimits;
+}
+
+export interface BudgetSettings {
+	/** Caps across all providers */
+	global: BudgetScope;
+	/** Caps for individual providers */
+	providers: Partial<Record<AiProvider, BudgetScope>>;
+	/** Percentages of a cap at which a warning Notice is shown */
+	warnThresholds: number[];
+	/** Send requests to the local Ollama model instead of refusing them */
+	fallbackToOllama: boolean;
+}
+
+export const NO_BUDGET_LIMITS: BudgetLimits = { requests: 0, tokens: 0, cost: 0 };
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+	global: { daily: NO_BUDGET_LIMITS, monthly: NO_BUDGET_LIMITS },
+	providers: {},
+	warnThresholds: [80],
+	fallbackToOllama: false,
+};
+
+/** A scope's caps with any missing fields filled in */
+export function normalizeBudgetScope(scope: Partial<BudgetScope> | undefined): BudgetScope {
+	return {
+		daily: { ...NO_BUDGET_LIMITS, ...scope?.daily },
+		monthly: { ...NO_BUDGET_LIMITS, ...scope?.monthly },
+	};
+}
+
+/** Opt-in cache of successful replies */
+export interface CacheSettings {
+	enabled: boolean;
+	/** Entries older than this are treated as missing */
+	ttlHours: number;
+	/** Oldest entries are evicted beyond this total size */
+	maxSizeMb: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+	enabled: false,
+	ttlHours: 24,
+	maxSizeMb: 5,
+};
+
+export type AuditFormat = "markdown" | "jsonl";
+
+/** Opt-in log of every request and response, written to the vault */
+export interface AuditSettings {
+	enabled: boolean;
+	/** Vault folder; one file per day */
+	folder: string;
+	format: AuditFormat;
+	/** Daily files older than this are deleted; 0 = keep forever */
+	retentionDays: number;
+}
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = {
+	enabled: false,
+	folder: "AI Audit Log",
+	format: "markdown",
+	retentionDays: 30,
+};
+
+/**
+ * What the mock provider does:
+ * "script" answers from regex rules, "record" forwards to a real
+ * provider and saves its replies, "replay" serves saved replies.
+ */
+export type MockMode = "script" | "record" | "replay";
+
+export interface MockRule {
+	/** Regex tested against the system prompt and message, joined by a blank line */
+	pattern: string;
+	/** Reply text; $1-$9 insert capture groups */
+	response: string;
+}
+
+/** Offline provider for developing consumer plugins */
+export interface MockSettings {
+	mode: MockMode;
+	/** Script mode: first matching rule wins */
+	rules: MockRule[];
+	/** Script mode: reply when no rule matches; empty = fail the request */
+	defaultResponse: string;
+	/** Record mode: the real provider whose replies are captured */
+	recordProvider: AiProvider;
+	/** Vault path of the fixture file written by record mode and read by replay */
+	fixtureFile: string;
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = {
+	mode: "script",
+	rules: [],
+	defaultResponse: "This is a mock response.",
+	recordProvider: "gemini",
+	fixtureFile: "AI Fixtures/fixtures.json",
+};
+
+/** Per-provider throttling; 0 = no limit */
+export interface ProviderRateLimits {
+	/** Requests running at the same time */
+	concurrency: number;
+	/** Requests started per minute */
+	rpm: number;
+	/** Estimated tokens sent per minute */
+	tpm: number;
+}
+
+export interface SchedulerSettings {
+	/** Requests running at the same time across all providers (0 = no limit) */
+	maxConcurrent: number;
+	providers: Partial<Record<AiProvider, ProviderRateLimits>>;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+	maxConcurrent: 4,
+	// A local GPU handles one generation at a time
+	providers: { ollama: { concurrency: 1, rpm: 0, tpm: 0 } },
+};
+
+/** A named set of settings, without secrets, that the user can switch to */
+export interface SettingsProfile {
+	name: string;
+	settings: Partial<AiSettings>;
 }
 
 export interface AiSettings {
@@ -20,6 +241,32 @@ export interface AiSettings {
 	ollamaUrl: string;
 	/** Muse persona settings */
 	persona: MusePersonaSettings;
+	/** Retry policy for transient failures */
+	retry: RetryPolicy;
+	/** Tried in order when the primary provider fails with a transient error */
+	fallbacks: AiRoute[];
+	/** Request / token / cost caps */
+	budget: BudgetSettings;
+	/** Response cache */
+	cache: CacheSettings;
+	/** Request / response log */
+	audit: AuditSettings;
+	/** Mock provider behaviour */
+	mock: MockSettings;
+	/** Set once the user chooses a passphrase; keys are then encrypted at rest */
+	keyVault?: KeyVault;
+	/** Set once the user was told their keys are stored in plain text */
+	keySealPrompted?: boolean;
+	/** Saved setting profiles */
+	profiles: SettingsProfile[];
+	/** Name of the profile last saved or switched to; "" = none */
+	activeProfile: string;
+	/** Concurrency and rate limits */
+	scheduler: SchedulerSettings;
+	/** Task tag → provider + model; untagged or unmapped requests use `provider` */
+	taskRoutes: TaskRoute[];
+	/** User-defined generation parameter presets */
+	paramPresets: ParamPreset[];
 }
 
 // ============================================================
@@ -33,11 +280,28 @@ export interface MusePersona {
 	tone: string;
 	firstPerson: string;
 	speechStyle: string;
+	/** Full prompt text; set for personas loaded from vault notes */
+	prompt?: string;
+	/** Detailed rules for the custom persona, in the structure presets use */
+	rules?: PersonaRules;
+}
+
+/** Sections of a detailed persona prompt; empty sections are left out */
+export interface PersonaRules {
+	/** Who the persona is; built from name and tone when empty */
+	intro: string;
+	toneRules: string[];
+	/** How the persona asks deepening questions */
+	deepening: string;
+	goodExamples: string[];
+	/** Forbidden phrases and examples */
+	forbidden: string[];
 }
 
 export interface MusePersonaSettings {
-	selected: string;       // preset ID or "custom"
+	selected: string;       // preset ID, "custom", or "note:<path>"
 	custom: MusePersona;    // user-customized persona
+	folder: string;         // vault folder scanned for persona notes
 }
 
 export const DEFAULT_PERSONA_SETTINGS: MusePersonaSettings = {
@@ -50,6 +314,7 @@ export const DEFAULT_PERSONA_SETTINGS: MusePersonaSettings = {
 		firstPerson: "",
 		speechStyle: "",
 	},
+	folder: "Muse Personas",
 };
 
 export const DEFAULT_AI_SETTINGS: AiSettings = {
@@ -58,21 +323,80 @@ export const DEFAULT_AI_SETTINGS: AiSettings = {
 	providers: {},
 	ollamaUrl: "http://localhost:11434",
 	persona: DEFAULT_PERSONA_SETTINGS,
+	retry: DEFAULT_RETRY_POLICY,
+	fallbacks: [],
+	budget: DEFAULT_BUDGET_SETTINGS,
+	cache: DEFAULT_CACHE_SETTINGS,
+	audit: DEFAULT_AUDIT_SETTINGS,
+	mock: DEFAULT_MOCK_SETTINGS,
+	scheduler: DEFAULT_SCHEDULER_SETTINGS,
+	taskRoutes: [],
+	paramPresets: [],
+	profiles: [],
+	activeProfile: "",
 };
 
 /**
- * Get the effective API key for the current provider.
+ * Get the effective API key for a provider (default: the current one).
+ * External sources are read on every call, so a rotated key applies at once.
+ */
+export function getApiKey(s: AiSettings, id: AiProvider = s.provider): string {
+	return resolveApiKey(s.providers[id]).key;
+}
+
+/** The routing entry for a task tag, if the user mapped one */
+export function findTaskRoute(s: AiSettings, task: string | undefined): TaskRoute | undefined {
+	return task ? s.taskRoutes.find((r) => r.task === task) : undefined;
+}
+
+/**
+ * Get the effective model for a provider (default: the current one).
+ * With a task tag routed to this provider, the route's model wins.
  */
-export function getApiKey(s: AiSettings): string {
-	return s.providers[s.provider]?.apiKey || "";
+export function getModel(s: AiSettings, id: AiProvider = s.provider, task?: string): string {
+	const provider = PROVIDERS.find((p) => p.id === id);
+	const route = findTaskRoute(s, task);
+	const routed = route?.provider === id ? route.model : "";
+	return routed || s.providers[id]?.model || provider?.defaultModel || "";
 }
 
 /**
- * Get the effective model for the current provider.
+ * Get the provider + model a request with this task tag goes to first.
+ * Unmapped or missing tags use the main provider.
  */
-export function getModel(s: AiSettings): string {
-	const provider = PROVIDERS.find((p) => p.id === s.provider);
-	return s.providers[s.provider]?.model || provider?.defaultModel || "";
+export function resolveTaskRoute(s: AiSettings, task?: string): AiRoute {
+	const provider = findTaskRoute(s, task)?.provider ?? s.provider;
+	return { provider, model: getModel(s, provider, task) };
+}
+
+/**
+ * Settings whose main provider and model are the task's route,
+ * so everything downstream can ignore task tags. The matched route
+ * is dropped, so a later lookup with the same tag (callAi resolving
+ * its routes) cannot undo a provider swap made after this, such as
+ * a budget switching away from a capped provider.
+ */
+export function applyTaskRoute(s: AiSettings, task?: string): AiSettings {
+	const route = findTaskRoute(s, task);
+	if (!route) return s;
+	const { provider, model } = resolveTaskRoute(s, task);
+	const config = s.providers[provider] ?? { apiKey: "", model: "" };
+	return {
+		...s,
+		provider,
+		providers: { ...s.providers, [provider]: { ...config, model } },
+		taskRoutes: s.taskRoutes.filter((r) => r !== route),
+	};
+}
+
+/**
+ * Get the context window (tokens) of the provider a task routes to
+ * (default: the current one).
+ * Ollama's value is its default `num_ctx`, not the model's maximum.
+ */
+export function getContextWindow(s: AiSettings, task?: string): number {
+	const provider = resolveTaskRoute(s, task).provider;
+	return PROVIDERS.find((p) => p.id === provider)?.contextWindow ?? 4096;
 }
 
 /**
@@ -104,32 +428,227 @@ export function migrateSettings(s: AiSettings): AiSettings {
 	if (!s.persona.custom) {
 		s.persona.custom = JSON.parse(JSON.stringify(DEFAULT_PERSONA_SETTINGS.custom));
 	}
+	if (typeof s.persona.folder !== "string") s.persona.folder = DEFAULT_PERSONA_SETTINGS.folder;
+	// Fill in retry policy fields added in later versions
+	s.retry = { ...DEFAULT_RETRY_POLICY, ...s.retry };
+	if (!Array.isArray(s.fallbacks)) s.fallbacks = [];
+	// Budgets: copy so the UI never mutates the shared defaults
+	const budget: Partial<BudgetSettings> = s.budget ?? {};
+	const providerBudgets: BudgetSettings["providers"] = {};
+	for (const [id, scope] of Object.entries(budget.providers ?? {})) {
+		providerBudgets[id as AiProvider] = normalizeBudgetScope(scope);
+	}
+	s.budget = {
+		global: normalizeBudgetScope(budget.global),
+		providers: providerBudgets,
+		warnThresholds: Array.isArray(budget.warnThresholds)
+			? budget.warnThresholds
+			: [...DEFAULT_BUDGET_SETTINGS.warnThresholds],
+		fallbackToOllama: budget.fallbackToOllama ?? false,
+	};
+	s.cache = { ...DEFAULT_CACHE_SETTINGS, ...s.cache };
+	s.audit = { ...DEFAULT_AUDIT_SETTINGS, ...s.audit };
+	s.mock = { ...DEFAULT_MOCK_SETTINGS, ...s.mock };
+	s.mock.rules = Array.isArray(s.mock.rules) ? s.mock.rules.map((r) => ({ ...r })) : [];
+	// Encrypted keys are decrypted on unlock. Plaintext keys saved by older
+	// versions stay in memory and are encrypted on the first save after unlock.
+	if (s.keyVault) s.keyVault = { ...s.keyVault, keys: { ...s.keyVault.keys } };
+	if (!Array.isArray(s.profiles)) s.profiles = [];
+	if (typeof s.activeProfile !== "string") s.activeProfile = "";
+	if (!Array.isArray(s.taskRoutes)) s.taskRoutes = [];
+	if (!Array.isArray(s.paramPresets)) s.paramPresets = [];
+	s.scheduler = {
+		maxConcurrent: s.scheduler?.maxConcurrent ?? DEFAULT_SCHEDULER_SETTINGS.maxConcurrent,
+		providers: JSON.parse(JSON.stringify(s.scheduler?.providers ?? DEFAULT_SCHEDULER_SETTINGS.providers)),
+	};
 	// Clean up deprecated fields
 	delete s.apiKey;
 	delete s.model;
 	return s;
 }
 
+/** One prior turn of a multi-turn conversation */
+export interface AiMessage {
+	role: "user" | "assistant";
+	content: string;
+}
+
+/** JSON Schema subset accepted for structured output */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	enum?: unknown[];
+	minItems?: number;
+	maxItems?: number;
+	minimum?: number;
+	maximum?: number;
+}
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/** Ask for a machine-readable JSON reply instead of free text */
+export interface AiResponseFormat {
+	type: "json";
+	/** Without a schema the reply only has to be valid JSON */
+	schema?: JsonSchema;
+	/** Schema name, used by OpenAI json_schema and Anthropic's forced tool */
+	name?: string;
+}
+
+/**
+ * An image attached to a request: a vault file path, or raw data.
+ * String data must be base64 (no `data:` prefix).
+ */
+export type AiImageInput =
+	| { path: string }
+	| { data: ArrayBuffer | string; mimeType: string };
+
+/** An image ready to send: base64 data plus MIME type */
+export interface AiImage {
+	data: string;
+	mimeType: string;
+}
+
+/** A function the model may call; the bridge runs the call loop */
+export interface AiTool {
+	name: string;
+	description: string;
+	/** JSON Schema of the arguments object */
+	parameters: JsonSchema;
+	/** Return value is sent back to the model (strings as-is, anything else as JSON) */
+	handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+/** One tool invocation requested by the model */
+export interface AiToolCall {
+	id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
 /** Request from consumer plugins */
-export interface AiRequest {
+export interface AiRequest extends GenerationParams {
 	system: string;
 	message: string;
 	maxTokens?: number;
+	/** Name of a user-defined parameter preset; explicit parameters override it */
+	preset?: string;
+	/** Earlier turns, oldest first; `message` is sent after them as the newest user turn */
+	history?: AiMessage[];
+	/** Abort the request (e.g. when the consumer's modal closes) */
+	signal?: AbortSignal;
+	/** Override parts of the user's retry policy for this request */
+	retry?: Partial<RetryPolicy>;
+	/** Set false to use only the primary provider, skipping the fallback chain */
+	fallback?: boolean;
+	/** Request JSON output, validated against the schema (one repair round-trip on failure) */
+	responseFormat?: AiResponseFormat;
+	/** Tools the model may call before giving its final answer */
+	tools?: AiTool[];
+	/** Maximum model↔tool round trips (default 5) */
+	maxToolRounds?: number;
+	/** Images attached to `message`; requires a vision-capable model */
+	images?: AiImageInput[];
+	/** Calling plugin's ID (e.g. its manifest id), used to attribute token usage */
+	consumer?: string;
+	/** Kind of job (e.g. "hint", "diagnosis", "rewrite"); the user can route each tag to its own model */
+	task?: string;
+	/**
+	 * Response cache behaviour when the user has enabled it:
+	 * "use" (default) reads and writes, "bypass" skips the cache,
+	 * "refresh" skips the lookup but stores the new reply.
+	 */
+	cache?: "use" | "bypass" | "refresh";
+	/** Queue priority when requests wait for a provider slot (default "normal") */
+	priority?: AiPriority;
+	/**
+	 * Called with the 1-based queue position while the request waits
+	 * for a slot, and with 0 when it is sent. Called again for retries
+	 * and fallbacks, which queue separately.
+	 */
+	onQueuePosition?: (position: number) => void;
 }
 
+export type AiPriority = "high" | "normal" | "low";
+
+/**
+ * Token counts normalized across providers.
+ * `inputTokens` includes cached prompt tokens; `cachedTokens` is the
+ * part served from the provider's prompt cache (billed at a discount).
+ */
+export interface AiUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens: number;
+}
+
+/** Machine-readable failure class, set whenever `ok` is false */
+export type AiErrorCode =
+	| "auth"
+	| "rate_limit"
+	| "quota"
+	| "model_not_found"
+	| "safety_blocked"
+	| "truncated"
+	| "timeout"
+	| "network"
+	| "bad_request"
+	| "server"
+	| "invalid_output"
+	| "vision_unsupported"
+	| "budget_exceeded"
+	| "cancelled"
+	| "unknown";
+
 /** Response returned to consumer plugins */
 export interface AiResult {
 	text: string;
 	ok: boolean;
 	error?: string;
+	errorCode?: AiErrorCode;
+	/** HTTP status of the failed response, if there was one */
+	status?: number;
+	/** Provider that handled the request (may be a fallback) */
+	provider?: AiProvider;
+	/** Model that handled the request */
+	model?: string;
+	/** Parsed and validated JSON when `responseFormat` was requested */
+	data?: unknown;
+	/** Tool calls executed while producing this result, in order */
+	toolCalls?: AiToolCall[];
+	/** True when the request was aborted via `AiRequest.signal` or plugin unload */
+	cancelled?: boolean;
+	/** Number of the final attempt (1 = succeeded or failed without retrying) */
+	attempts?: number;
+	/** Retries performed (attempts - 1) */
+	retries?: number;
+	/** Tokens used, summed over tool rounds and repair requests (when the provider reports them) */
+	usage?: AiUsage;
+	/** True when the reply was served from the response cache */
+	cached?: boolean;
 }
 
+/**
+ * Incremental update delivered while a streamed response arrives.
+ * Text chunks carry only the newly received delta; the final chunk
+ * carries the complete result (also returned by the stream call).
+ */
+export type AiStreamChunk =
+	| { done: false; text: string }
+	| { done: true; result: AiResult };
+
 /** Provider display info */
 export interface ProviderInfo {
 	id: AiProvider;
 	name: string;
 	defaultModel: string;
 	needsApiKey: boolean;
+	/** Default context window (tokens), used for session history compaction */
+	contextWindow: number;
 }
 
 export const PROVIDERS: ProviderInfo[] = [
@@ -138,27 +657,66 @@ export const PROVIDERS: ProviderInfo[] = [
 		name: "Google Gemini",
 		defaultModel: "gemini-2.5-flash",
 		needsApiKey: true,
+		contextWindow: 1_000_000,
 	},
 	{
 		id: "openai",
 		name: "OpenAI",
 		defaultModel: "gpt-4o-mini",
 		needsApiKey: true,
+		contextWindow: 128_000,
 	},
 	{
 		id: "anthropic",
 		name: "Anthropic",
 		defaultModel: "claude-sonnet-4-20250514",
 		needsApiKey: true,
+		contextWindow: 200_000,
 	},
 	{
 		id: "ollama",
 		name: t.ollamaLocal,
 		defaultModel: "gemma3:12b",
 		needsApiKey: false,
+		contextWindow: 4096,
+	},
+	{
+		id: "openai-compatible",
+		name: t.openAiCompatible,
+		defaultModel: "",
+		needsApiKey: false,
+		contextWindow: 8192,
+	},
+	{
+		id: "mock",
+		name: t.mockProvider,
+		defaultModel: "mock",
+		needsApiKey: false,
+		contextWindow: 128_000,
 	},
 ];
 
+// ============================================================
+// Vision support
+// ============================================================
+
+/**
+ * Model-name patterns known to accept image input, per provider.
+ * OpenAI-compatible servers are not listed: any model is allowed
+ * and the server reports an error if it cannot handle images.
+ */
+const VISION_MODELS: Partial<Record<AiProvider, RegExp>> = {
+	gemini: /^gemini-(1\.5|2|3)/,
+	openai: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini)|o3|o4)/,
+	anthropic: /^claude-(3|sonnet-4|opus-4|haiku-4)/,
+	ollama: /llava|vision|-vl|vl:|gemma3:(4b|12b|27b)|minicpm-v|moondream|mistral-small3\.[12]/,
+};
+
+export function supportsVision(provider: AiProvider, model: string): boolean {
+	const pattern = VISION_MODELS[provider];
+	return pattern ? pattern.test(model) : true;
+}
+
 // ============================================================
 // Ollama model diagnostics
 // ============================================================
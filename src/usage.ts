@@ -0,0 +1,194 @@
+import type { DataAdapter } from "obsidian";
+import type { AiProvider, AiUsage } from "./types";
+
+// ============================================================
+// Token usage ledger
+// Daily totals per provider, model and consumer plugin, stored in
+// the plugin folder (not data.json) so settings stay small.
+// Costs are estimates from a built-in price table.
+// ============================================================
+
+/** Days of history kept in the ledger */
+const RETENTION_DAYS = 90;
+
+/** One row of the ledger: a day's totals for a provider + model + consumer */
+export interface UsageRecord {
+	/** Local date, YYYY-MM-DD */
+	date: string;
+	provider: AiProvider;
+	model: string;
+	/** Consumer plugin ID; "" when the request was not tagged */
+	consumer: string;
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens: number;
+}
+
+/** Aggregated totals for a set of records */
+export interface UsageTotals {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens: number;
+	/** Estimated cost in USD; undefined when no record has a known price */
+	cost: number | undefined;
+}
+
+/** USD per 1M tokens */
+export interface ModelPrice {
+	input: number;
+	output: number;
+	cachedInput?: number;
+}
+
+/**
+ * List prices by model-name prefix (longest prefix wins).
+ * Ollama and the mock provider are free; OpenAI-compatible servers have no known price.
+ */
+const MODEL_PRICES: Partial<Record<AiProvider, Record<string, ModelPrice>>> = {
+	gemini: {
+		"gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31 },
+		"gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075 },
+		"gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+		"gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+		"gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+	},
+	openai: {
+		"gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+		"gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+		"gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+		"gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+		"gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+		"gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+		"gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+		"gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+		"o3": { input: 2, output: 8, cachedInput: 0.5 },
+		"o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+	},
+	anthropic: {
+		"claude-opus-4": { input: 15, output: 75, cachedInput: 1.5 },
+		"claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5 },
+		"claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3 },
+		"claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+		"claude-3-7-sonnet": { input: 3, output: 15, cachedInput: 0.3 },
+		"claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08 },
+		"claude-3-haiku": { input: 0.25, output: 1.25, cachedInput: 0.03 },
+	},
+};
+
+export function getModelPrice(provider: AiProvider, model: string): ModelPrice | undefined {
+	if (provider === "ollama" || provider === "mock") return { input: 0, output: 0 };
+	const table = MODEL_PRICES[provider] ?? {};
+	const prefix = Object.keys(table)
+		.filter((key) => model.startsWith(key))
+		.sort((a, b) => b.length - a.length)[0];
+	return prefix ? table[prefix] : undefined;
+}
+
+/** Estimated USD cost, or undefined when the model's price is unknown */
+export function estimateCost(provider: AiProvider, model: string, usage: AiUsage): number | undefined {
+	const price = getModelPrice(provider, model);
+	if (!price) return undefined;
+	const uncached = usage.inputTokens - usage.cachedTokens;
+	const cachedRate = price.cachedInput ?? price.input;
+	return (uncached * price.input + usage.cachedTokens * cachedRate + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** Local calendar date as YYYY-MM-DD */
+export function dayKey(date = new Date()): string {
+	const y = date.getFullYear();
+	const m = String(date.getMonth() + 1).padStart(2, "0");
+	const d = String(date.getDate()).padStart(2, "0");
+	return `${y}-${m}-${d}`;
+}
+
+/** Sum records, pricing each one by its own provider and model */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+	const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0, cost: undefined };
+	for (const r of records) {
+		totals.requests += r.requests;
+		totals.inputTokens += r.inputTokens;
+		totals.outputTokens += r.outputTokens;
+		totals.cachedTokens += r.cachedTokens;
+		const cost = estimateCost(r.provider, r.model, r);
+		if (cost !== undefined) totals.cost = (totals.cost ?? 0) + cost;
+	}
+	return totals;
+}
+
+interface LedgerFile {
+	version: 1;
+	records: UsageRecord[];
+}
+
+export class UsageLedger {
+	records: UsageRecord[] = [];
+
+	private adapter: DataAdapter;
+	private path: string;
+	/** Writes are chained so a slow save never overwrites a newer one */
+	private saving: Promise<void> = Promise.resolve();
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (!(await this.adapter.exists(this.path))) return;
+			const file = JSON.parse(await this.adapter.read(this.path)) as LedgerFile;
+			this.records = Array.isArray(file.records) ? file.records : [];
+			this.prune();
+		} catch (e: unknown) {
+			console.warn("[MWAB] failed to load usage ledger:", e);
+			this.records = [];
+		}
+	}
+
+	/** Count one request against today's row for its provider, model and consumer */
+	record(provider: AiProvider, model: string, consumer: string | undefined, usage: AiUsage | undefined): void {
+		const date = dayKey();
+		const key = consumer ?? "";
+		let row = this.records.find((r) =>
+			r.date === date && r.provider === provider && r.model === model && r.consumer === key);
+		if (!row) {
+			row = { date, provider, model, consumer: key, requests: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+			this.records.push(row);
+		}
+		row.requests++;
+		row.inputTokens += usage?.inputTokens ?? 0;
+		row.outputTokens += usage?.outputTokens ?? 0;
+		row.cachedTokens += usage?.cachedTokens ?? 0;
+		this.prune();
+		void this.save();
+	}
+
+	/** Records dated on or after `since` (YYYY-MM-DD) */
+	since(since: string): UsageRecord[] {
+		return this.records.filter((r) => r.date >= since);
+	}
+
+	async clear(): Promise<void> {
+		this.records = [];
+		await this.save();
+	}
+
+	private prune(): void {
+		const cutoff = new Date();
+		cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+		const oldest = dayKey(cutoff);
+		this.records = this.records.filter((r) => r.date >= oldest);
+	}
+
+	private save(): Promise<void> {
+		this.saving = this.saving
+			.then(() => {
+				const file: LedgerFile = { version: 1, records: this.records };
+				return this.adapter.write(this.path, JSON.stringify(file));
+			})
+			.catch((e: unknown) => console.warn("[MWAB] failed to save usage ledger:", e));
+		return this.saving;
+	}
+}